@@ -2,8 +2,19 @@ import Database from 'better-sqlite3'
 import * as path from 'path'
 import * as fs from 'fs'
 import { app } from 'electron'
+import { type ChannelRouting, type MelodyGuide, type MelodyMode, sanitizeRouting } from '../midi/routing.js'
+import type { QueueMode } from '../settings/store.js'
+import type { LyricCharset } from '../midi/charset.js'
 
-export type FileType = 'midi' | 'cdg'
+// How far back a singer's last turn counts when ordering the rotation
+const ROTATION_WINDOW_HOURS = 12
+
+// Singers are matched by name, ignoring case and stray spaces
+function singerKey(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+export type FileType = 'midi' | 'cdg' | 'lrc' | 'video'
 
 export interface Song {
   id: number
@@ -16,8 +27,11 @@ export interface Song {
   file_hash: string
   language: string // 'en', 'es', or 'other'
   video_url: string | null // YouTube or other video URL for background
-  file_type: FileType // 'midi' for KAR/MID files, 'cdg' for CDG+MP3 files
-  audio_path: string | null // For CDG files: path to associated MP3
+  file_type: FileType // 'midi' for KAR/MID files, 'cdg' for CDG+MP3 files, 'lrc' for LRC+audio files, 'video' for karaoke videos
+  audio_path: string | null // For CDG and LRC files: path to associated MP3
+  file_mtime: number | null // File modification time (ms) when last indexed
+  file_size: number | null // File size (bytes) when last indexed
+  lyrics_charset: LyricCharset | null // Encoding chosen for the lyrics; null to detect it
   created_at: string
   last_played_at: string | null
 }
@@ -27,15 +41,31 @@ export interface QueueItem {
   song_id: number
   singer_name: string
   queued_at: string
-  status: 'pending' | 'playing' | 'completed' | 'skipped'
+  status: 'pending_approval' | 'pending' | 'playing' | 'completed' | 'skipped'
   session_id: string
+  transpose: number // Semitones applied to MIDI playback (-12..+12)
+  melody_mode: MelodyMode // How the melody guide plays
+  melody_volume: number // Melody guide synth volume (0-100)
+  started_at: string | null // When the item started playing
+  position: number // Play order among pending items
   // Joined fields
   title?: string
   artist?: string
 }
 
+export interface Singer {
+  id: number
+  name: string
+  pin_hash: string | null // Hash of the singer's PIN; null if the name alone signs in
+  created_at: string
+}
+
+// A song from a singer's history, with how often and when they last sang it
+export type SungSong = Song & { times_sung: number; last_sung_at: string }
+
 class CatalogDatabase {
   private db: Database.Database | null = null
+  private queueMode: QueueMode = 'fifo'
 
   initialize(): void {
     if (this.db) return
@@ -129,6 +159,66 @@ class CatalogDatabase {
       // Column already exists, which is fine
     }
 
+    // Migration: add channel_routing column for per-song routing overrides (JSON)
+    try {
+      this.db.exec(`ALTER TABLE songs ADD COLUMN channel_routing TEXT`)
+      console.log('Added channel_routing column to songs table')
+    } catch {
+      // Column already exists, which is fine
+    }
+
+    // Migration: add file_mtime/file_size so unchanged files can be skipped without rehashing
+    try {
+      this.db.exec(`ALTER TABLE songs ADD COLUMN file_mtime INTEGER`)
+      console.log('Added file_mtime column to songs table')
+    } catch {
+      // Column already exists, which is fine
+    }
+
+    try {
+      this.db.exec(`ALTER TABLE songs ADD COLUMN file_size INTEGER`)
+      console.log('Added file_size column to songs table')
+    } catch {
+      // Column already exists, which is fine
+    }
+
+    // Migration: add lyrics_charset column for per-song lyrics encoding overrides
+    try {
+      this.db.exec(`ALTER TABLE songs ADD COLUMN lyrics_charset TEXT`)
+      console.log('Added lyrics_charset column to songs table')
+    } catch {
+      // Column already exists, which is fine
+    }
+
+    // Migration: add kar_headers column for the @ header lines of KAR files (JSON array)
+    try {
+      this.db.exec(`ALTER TABLE songs ADD COLUMN kar_headers TEXT`)
+      console.log('Added kar_headers column to songs table')
+    } catch {
+      // Column already exists, which is fine
+    }
+
+    // Full-text index over title, artist and lyrics (rowid = songs.id)
+    // unicode61 with remove_diacritics folds accents on both sides, so "corazon" finds "corazón"
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS songs_fts USING fts5(
+        title, artist, lyrics,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS songs_fts_delete AFTER DELETE ON songs BEGIN
+        DELETE FROM songs_fts WHERE rowid = old.id;
+      END;
+    `)
+
+    // Migration: index songs added before the full-text index existed
+    // Lyrics are left NULL so the next scan knows to fill them in
+    this.db.exec(`
+      INSERT INTO songs_fts (rowid, title, artist, lyrics)
+      SELECT id, title, artist, NULL FROM songs
+      WHERE id NOT IN (SELECT rowid FROM songs_fts)
+    `)
+
     // Queue table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS queue (
@@ -144,6 +234,40 @@ class CatalogDatabase {
       CREATE INDEX IF NOT EXISTS idx_queue_queued_at ON queue(queued_at);
     `)
 
+    // Migration: add transpose column for per-singer key changes
+    try {
+      this.db.exec(`ALTER TABLE queue ADD COLUMN transpose INTEGER DEFAULT 0`)
+      console.log('Added transpose column to queue table')
+    } catch {
+      // Column already exists, which is fine
+    }
+
+    // Migration: add melody guide columns
+    try {
+      this.db.exec(`ALTER TABLE queue ADD COLUMN melody_mode TEXT DEFAULT 'default'`)
+      this.db.exec(`ALTER TABLE queue ADD COLUMN melody_volume INTEGER DEFAULT 100`)
+      console.log('Added melody guide columns to queue table')
+    } catch {
+      // Columns already exist, which is fine
+    }
+
+    // Migration: add started_at column so singer rotation knows who sang last
+    try {
+      this.db.exec(`ALTER TABLE queue ADD COLUMN started_at DATETIME`)
+      console.log('Added started_at column to queue table')
+    } catch {
+      // Column already exists, which is fine
+    }
+
+    // Migration: add position column for an explicit, reorderable play order
+    try {
+      this.db.exec(`ALTER TABLE queue ADD COLUMN position INTEGER`)
+      this.db.exec(`UPDATE queue SET position = id`)
+      console.log('Added position column to queue table')
+    } catch {
+      // Column already exists, which is fine
+    }
+
     // Play history table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS play_history (
@@ -156,19 +280,53 @@ class CatalogDatabase {
       CREATE INDEX IF NOT EXISTS idx_history_played_at ON play_history(played_at);
     `)
 
+    // Singer profiles (one per name, ignoring case and stray spaces) and their favorite songs
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS singers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        pin_hash TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_singers_name ON singers(LOWER(TRIM(name)));
+
+      CREATE TABLE IF NOT EXISTS singer_favorites (
+        singer_id INTEGER REFERENCES singers(id) ON DELETE CASCADE,
+        song_id INTEGER REFERENCES songs(id) ON DELETE CASCADE,
+        added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (singer_id, song_id)
+      );
+    `)
+
     console.log('Database tables created/verified')
   }
 
   // Song operations
-  addSong(song: Omit<Song, 'id' | 'created_at' | 'last_played_at'>): number {
+  addSong(song: Omit<Song, 'id' | 'created_at' | 'last_played_at'>, lyricsText: string | null = null): number {
     if (!this.db) throw new Error('Database not initialized')
 
+    // A rescanned file keeps its id, so queue entries, favorites, history and the
+    // settings made for it (channel routing, video, lyrics encoding) stay attached
     const stmt = this.db.prepare(`
-      INSERT OR REPLACE INTO songs (file_path, title, artist, duration_ms, has_lyrics, track_count, file_hash, language, file_type, audio_path)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO songs (file_path, title, artist, duration_ms, has_lyrics, track_count, file_hash, language, file_type, audio_path, file_mtime, file_size, lyrics_charset)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(file_path) DO UPDATE SET
+        title = excluded.title,
+        artist = excluded.artist,
+        duration_ms = excluded.duration_ms,
+        has_lyrics = excluded.has_lyrics,
+        track_count = excluded.track_count,
+        file_hash = excluded.file_hash,
+        language = excluded.language,
+        file_type = excluded.file_type,
+        audio_path = excluded.audio_path,
+        file_mtime = excluded.file_mtime,
+        file_size = excluded.file_size
+      RETURNING id
     `)
 
-    const result = stmt.run(
+    const { id: songId } = stmt.get(
       song.file_path,
       song.title,
       song.artist,
@@ -178,10 +336,46 @@ class CatalogDatabase {
       song.file_hash,
       song.language || 'en',
       song.file_type || 'midi',
-      song.audio_path || null
-    )
+      song.audio_path || null,
+      song.file_mtime ?? null,
+      song.file_size ?? null,
+      song.lyrics_charset ?? null
+    ) as { id: number }
+
+    this.indexSongText(songId, song.title, song.artist, lyricsText)
+    return songId
+  }
 
-    return result.lastInsertRowid as number
+  /** Replace a song's full-text index entry */
+  indexSongText(songId: number, title: string, artist: string, lyricsText: string | null): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    this.db.prepare('DELETE FROM songs_fts WHERE rowid = ?').run(songId)
+    this.db.prepare('INSERT INTO songs_fts (rowid, title, artist, lyrics) VALUES (?, ?, ?, ?)')
+      .run(songId, title, artist, lyricsText)
+  }
+
+  /** True if the song's lyrics haven't been indexed yet (e.g. it predates the index) */
+  needsLyricsIndex(songId: number): boolean {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('SELECT lyrics IS NULL AS missing FROM songs_fts WHERE rowid = ?')
+    const result = stmt.get(songId) as { missing: number } | undefined
+    return !result || result.missing === 1
+  }
+
+  /**
+   * Turn user input into an FTS5 query: every word must match, as a prefix.
+   * Words are quoted so punctuation and FTS operators in titles can't break the syntax.
+   */
+  private buildFtsQuery(query: string): string | null {
+    const terms = query
+      .split(/[\s\-,.!?¿¡'"()]+/)
+      .map(term => term.replace(/"/g, ''))
+      .filter(term => term.length > 0)
+
+    if (terms.length === 0) return null
+    return terms.map(term => `"${term}"*`).join(' ')
   }
 
   getSong(id: number): Song | null {
@@ -198,19 +392,13 @@ class CatalogDatabase {
     return stmt.get(filePath) as Song | null
   }
 
-  searchSongs(query: string, limit = 100, filters?: { hasLyrics?: boolean; hasVideo?: boolean }): Song[] {
+  searchSongs(query: string, limit = 100, filters?: { hasLyrics?: boolean; hasVideo?: boolean; language?: string }): Song[] {
     if (!this.db) return [] // Not yet initialized
 
     // Build WHERE clauses based on filters
     const conditions: string[] = []
     const params: (string | number)[] = []
 
-    if (query.trim()) {
-      const searchPattern = `%${query}%`
-      conditions.push('(title LIKE ? OR artist LIKE ?)')
-      params.push(searchPattern, searchPattern)
-    }
-
     if (filters?.hasLyrics) {
       conditions.push('has_lyrics = 1')
     }
@@ -219,32 +407,49 @@ class CatalogDatabase {
       conditions.push("video_url IS NOT NULL AND video_url != ''")
     }
 
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    if (filters?.language) {
+      conditions.push('language = ?')
+      params.push(filters.language)
+    }
 
-    if (!query.trim()) {
+    const ftsQuery = this.buildFtsQuery(query)
+
+    if (!ftsQuery) {
       // Return all songs matching filters
+      const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
       const stmt = this.db.prepare(`SELECT * FROM songs ${whereClause} ORDER BY title LIMIT ?`)
       params.push(limit)
       return stmt.all(...params) as Song[]
     }
 
-    // With search query, use relevance ordering
-    const exactPattern = `${query}%`
+    // Ranked full-text match; title hits weigh most, then artist, then lyrics
+    const filterClause = conditions.length > 0 ? `AND ${conditions.map(c => `(${c})`).join(' AND ')}` : ''
     const stmt = this.db.prepare(`
-      SELECT * FROM songs
-      ${whereClause}
-      ORDER BY
-        CASE
-          WHEN title LIKE ? THEN 1
-          WHEN artist LIKE ? THEN 2
-          ELSE 3
-        END,
-        title
+      SELECT songs.* FROM songs_fts
+      JOIN songs ON songs.id = songs_fts.rowid
+      WHERE songs_fts MATCH ? ${filterClause}
+      ORDER BY bm25(songs_fts, 10.0, 5.0, 1.0), songs.title
       LIMIT ?
     `)
 
-    params.push(exactPattern, exactPattern, limit)
-    return stmt.all(...params) as Song[]
+    return stmt.all(ftsQuery, ...params, limit) as Song[]
+  }
+
+  /** Record a file's current mtime/size after confirming its contents are unchanged */
+  updateSongFileStat(songId: number, mtime: number, size: number): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('UPDATE songs SET file_mtime = ?, file_size = ? WHERE id = ?')
+    stmt.run(mtime, size, songId)
+  }
+
+  /** Songs whose files live under a catalog folder */
+  getSongsUnderPath(directoryPath: string): Array<{ id: number; file_path: string }> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const prefix = directoryPath.endsWith(path.sep) ? directoryPath : directoryPath + path.sep
+    const stmt = this.db.prepare('SELECT id, file_path FROM songs WHERE substr(file_path, 1, ?) = ?')
+    return stmt.all(prefix.length, prefix) as Array<{ id: number; file_path: string }>
   }
 
   getAllSongs(): Song[] {
@@ -285,17 +490,209 @@ class CatalogDatabase {
     return result?.video_url || null
   }
 
+  // Channel routing operations
+  getChannelRouting(songId: number): ChannelRouting {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('SELECT channel_routing FROM songs WHERE id = ?')
+    const result = stmt.get(songId) as { channel_routing: string | null } | undefined
+    if (!result?.channel_routing) return {}
+
+    try {
+      return sanitizeRouting(JSON.parse(result.channel_routing))
+    } catch {
+      return {}
+    }
+  }
+
+  setChannelRouting(songId: number, routing: ChannelRouting): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const value = Object.keys(routing).length > 0 ? JSON.stringify(routing) : null
+    const stmt = this.db.prepare('UPDATE songs SET channel_routing = ? WHERE id = ?')
+    stmt.run(value, songId)
+  }
+
+  // KAR header operations
+  getKarHeaders(songId: number): string[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('SELECT kar_headers FROM songs WHERE id = ?')
+    const result = stmt.get(songId) as { kar_headers: string | null } | undefined
+    if (!result?.kar_headers) return []
+
+    try {
+      const headers = JSON.parse(result.kar_headers)
+      return Array.isArray(headers) ? headers.filter(line => typeof line === 'string') : []
+    } catch {
+      return []
+    }
+  }
+
+  setKarHeaders(songId: number, headers: string[]): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const value = headers.length > 0 ? JSON.stringify(headers) : null
+    const stmt = this.db.prepare('UPDATE songs SET kar_headers = ? WHERE id = ?')
+    stmt.run(value, songId)
+  }
+
+  // Lyrics encoding operations
+  /** Set or clear a song's lyrics encoding override, with the language and lyrics index it gives */
+  setLyricsCharset(songId: number, charset: LyricCharset | null, language: string, lyricsText: string): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const song = this.getSong(songId)
+    if (!song) return
+
+    this.db.prepare('UPDATE songs SET lyrics_charset = ?, language = ? WHERE id = ?').run(charset, language, songId)
+    this.indexSongText(songId, song.title, song.artist, lyricsText)
+  }
+
   // Queue operations
-  addToQueue(songId: number, singerName: string, sessionId?: string): number {
+  addToQueue(
+    songId: number,
+    singerName: string,
+    sessionId?: string,
+    options: { transpose?: number; melodyGuide?: MelodyGuide; needsApproval?: boolean } = {}
+  ): number {
+    if (!this.db) throw new Error('Database not initialized')
+    const db = this.db
+
+    const stmt = db.prepare(`
+      INSERT INTO queue (song_id, singer_name, session_id, transpose, melody_mode, melody_volume, status)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+
+    return db.transaction(() => {
+      const result = stmt.run(
+        songId,
+        singerName,
+        sessionId || '',
+        options.transpose ?? 0,
+        options.melodyGuide?.mode ?? 'default',
+        options.melodyGuide?.volume ?? 100,
+        options.needsApproval ? 'pending_approval' : 'pending'
+      )
+      const queueId = result.lastInsertRowid as number
+
+      // Requests awaiting approval get a place in line once approved
+      if (!options.needsApproval) {
+        this.placeInQueue(queueId, singerName)
+      }
+      return queueId
+    })()
+  }
+
+  // FIFO goes to the end; rotation slots the request into its singer's next turn
+  private placeInQueue(queueId: number, singerName: string): void {
+    const pending = this.getPendingQueue().filter(item => item.id !== queueId)
+    const ids = pending.map(item => item.id)
+    const insertIndex = this.queueMode === 'rotation'
+      ? this.getRotationInsertIndex(pending, singerName, this.getLastTurns())
+      : ids.length
+    ids.splice(insertIndex, 0, queueId)
+    this.writeQueuePositions(ids)
+  }
+
+  // Guest requests waiting for the host, oldest first
+  getApprovalQueue(): QueueItem[] {
+    if (!this.db) return []
+
+    const stmt = this.db.prepare(`
+      SELECT q.*, s.title, s.artist
+      FROM queue q
+      JOIN songs s ON q.song_id = s.id
+      WHERE q.status = 'pending_approval'
+      ORDER BY q.queued_at, q.id
+    `)
+
+    return stmt.all() as QueueItem[]
+  }
+
+  // Move an approved request into the queue; false if it wasn't awaiting approval
+  approveQueueItem(queueId: number): boolean {
+    if (!this.db) throw new Error('Database not initialized')
+    const db = this.db
+
+    return db.transaction(() => {
+      const item = db.prepare("SELECT singer_name FROM queue WHERE id = ? AND status = 'pending_approval'")
+        .get(queueId) as { singer_name: string } | undefined
+      if (!item) return false
+
+      db.prepare("UPDATE queue SET status = 'pending' WHERE id = ?").run(queueId)
+      this.placeInQueue(queueId, item.singer_name)
+      return true
+    })()
+  }
+
+  rejectQueueItem(queueId: number): boolean {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare("DELETE FROM queue WHERE id = ? AND status = 'pending_approval'")
+    return stmt.run(queueId).changes > 0
+  }
+
+  // Requests (waiting or awaiting approval) by this singer name or guest session
+  countOpenRequests(singerName: string, sessionId: string): number {
     if (!this.db) throw new Error('Database not initialized')
 
     const stmt = this.db.prepare(`
-      INSERT INTO queue (song_id, singer_name, session_id)
-      VALUES (?, ?, ?)
+      SELECT COUNT(*) as count FROM queue
+      WHERE status IN ('pending', 'pending_approval')
+        AND (LOWER(TRIM(singer_name)) = LOWER(TRIM(?)) OR (session_id != '' AND session_id = ?))
     `)
+    return (stmt.get(singerName, sessionId) as { count: number }).count
+  }
+
+  // Seconds since this singer name or guest session last queued anything (null if never)
+  getSecondsSinceLastRequest(singerName: string, sessionId: string): number | null {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT (julianday('now') - julianday(MAX(queued_at))) * 86400 as seconds FROM queue
+      WHERE LOWER(TRIM(singer_name)) = LOWER(TRIM(?)) OR (session_id != '' AND session_id = ?)
+    `)
+    const result = stmt.get(singerName, sessionId) as { seconds: number | null }
+    return result.seconds
+  }
+
+  // Whether a song is already playing, waiting, or awaiting approval
+  isSongInQueue(songId: number): boolean {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT 1 FROM queue
+      WHERE song_id = ? AND status IN ('pending_approval', 'pending', 'playing')
+      LIMIT 1
+    `)
+    return stmt.get(songId) !== undefined
+  }
+
+  wasPlayedWithin(songId: number, minutes: number): boolean {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT 1 FROM play_history
+      WHERE song_id = ? AND played_at >= datetime('now', ?)
+      LIMIT 1
+    `)
+    return stmt.get(songId, `-${minutes} minutes`) !== undefined
+  }
+
+  setQueueItemMelodyGuide(queueId: number, guide: MelodyGuide): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('UPDATE queue SET melody_mode = ?, melody_volume = ? WHERE id = ?')
+    stmt.run(guide.mode, guide.volume, queueId)
+  }
+
+  // Returns false if there's no such queue item
+  setQueueItemTranspose(queueId: number, transpose: number): boolean {
+    if (!this.db) throw new Error('Database not initialized')
 
-    const result = stmt.run(songId, singerName, sessionId || '')
-    return result.lastInsertRowid as number
+    const stmt = this.db.prepare('UPDATE queue SET transpose = ? WHERE id = ?')
+    return stmt.run(transpose, queueId).changes > 0
   }
 
   removeFromQueue(queueId: number): void {
@@ -305,6 +702,44 @@ class CatalogDatabase {
     stmt.run(queueId)
   }
 
+  // A guest's own requests (playing, pending, then awaiting approval), in queue order
+  getSessionQueue(sessionId: string): QueueItem[] {
+    if (!sessionId) return []
+    return [...this.getQueue(), ...this.getApprovalQueue()].filter(item => item.session_id === sessionId)
+  }
+
+  // Guests may only cancel their own songs that haven't started yet
+  cancelSessionQueueItem(queueId: number, sessionId: string): boolean {
+    if (!this.db) throw new Error('Database not initialized')
+    if (!sessionId) return false
+
+    const stmt = this.db.prepare(`
+      DELETE FROM queue WHERE id = ? AND session_id = ? AND status IN ('pending', 'pending_approval')
+    `)
+    return stmt.run(queueId, sessionId).changes > 0
+  }
+
+  renameSessionQueueItem(queueId: number, sessionId: string, singerName: string): boolean {
+    if (!this.db) throw new Error('Database not initialized')
+    if (!sessionId) return false
+
+    const stmt = this.db.prepare(`
+      UPDATE queue SET singer_name = ? WHERE id = ? AND session_id = ? AND status IN ('pending', 'pending_approval')
+    `)
+    return stmt.run(singerName, queueId, sessionId).changes > 0
+  }
+
+  // 'fifo' adds songs to the end; 'rotation' slots them in so singers take turns
+  // Existing order is kept; call resequenceQueue() to reorder for the new mode
+  setQueueMode(mode: QueueMode): void {
+    this.queueMode = mode === 'rotation' ? 'rotation' : 'fifo'
+  }
+
+  getQueueMode(): QueueMode {
+    return this.queueMode
+  }
+
+  // Playing item first, then pending items in the order they'll play
   getQueue(): QueueItem[] {
     if (!this.db) return [] // Not yet initialized
 
@@ -312,34 +747,141 @@ class CatalogDatabase {
       SELECT q.*, s.title, s.artist
       FROM queue q
       JOIN songs s ON q.song_id = s.id
-      WHERE q.status IN ('pending', 'playing')
-      ORDER BY
-        CASE q.status WHEN 'playing' THEN 0 ELSE 1 END,
-        q.queued_at
+      WHERE q.status = 'playing'
     `)
 
-    return stmt.all() as QueueItem[]
+    const playing = stmt.all() as QueueItem[]
+    return [...playing, ...this.getPendingQueue()]
   }
 
   getNextInQueue(): QueueItem | null {
     if (!this.db) throw new Error('Database not initialized')
 
+    return this.getPendingQueue()[0] ?? null
+  }
+
+  private getPendingQueue(): QueueItem[] {
+    if (!this.db) return []
+
     const stmt = this.db.prepare(`
       SELECT q.*, s.title, s.artist
       FROM queue q
       JOIN songs s ON q.song_id = s.id
       WHERE q.status = 'pending'
-      ORDER BY q.queued_at
-      LIMIT 1
+      ORDER BY q.position, q.queued_at, q.id
     `)
 
-    return stmt.get() as QueueItem | null
+    return stmt.all() as QueueItem[]
+  }
+
+  /**
+   * Move a pending item to a new place among the pending items (0 = plays next).
+   * Returns false if the item isn't waiting in the queue.
+   */
+  moveQueueItem(queueId: number, toIndex: number): boolean {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const ids = this.getPendingQueue().map(item => item.id)
+    const fromIndex = ids.indexOf(queueId)
+    if (fromIndex === -1) return false
+
+    ids.splice(fromIndex, 1)
+    ids.splice(Math.max(0, Math.min(ids.length, Math.floor(toIndex))), 0, queueId)
+    this.writeQueuePositions(ids)
+    return true
+  }
+
+  /**
+   * Rebuild the pending order from scratch for the current queue mode (discards manual moves).
+   * Used when the mode setting changes.
+   */
+  resequenceQueue(): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const byQueuedAt = this.getPendingQueue()
+      .sort((a, b) => a.queued_at.localeCompare(b.queued_at) || a.id - b.id)
+
+    if (this.queueMode === 'fifo') {
+      this.writeQueuePositions(byQueuedAt.map(item => item.id))
+      return
+    }
+
+    // Replay every request through the rotation, as if they'd been queued one by one
+    const lastTurns = this.getLastTurns()
+    const ordered: QueueItem[] = []
+    for (const item of byQueuedAt) {
+      ordered.splice(this.getRotationInsertIndex(ordered, item.singer_name, lastTurns), 0, item)
+    }
+    this.writeQueuePositions(ordered.map(item => item.id))
+  }
+
+  private writeQueuePositions(ids: number[]): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('UPDATE queue SET position = ? WHERE id = ?')
+    this.db.transaction(() => {
+      ids.forEach((id, index) => stmt.run(index + 1, id))
+    })()
+  }
+
+  // Most recent turn per singer (lowercased name), including whoever is on stage now
+  private getLastTurns(): Map<string, string> {
+    const lastTurns = new Map<string, string>()
+    if (!this.db) return lastTurns
+
+    const stmt = this.db.prepare(`
+      SELECT singer_name, MAX(started_at) as last_turn
+      FROM queue
+      WHERE started_at IS NOT NULL AND started_at >= datetime('now', ?)
+      GROUP BY singer_name
+    `)
+    const turns = stmt.all(`-${ROTATION_WINDOW_HOURS} hours`) as Array<{ singer_name: string; last_turn: string }>
+    for (const turn of turns) {
+      const key = singerKey(turn.singer_name)
+      const previous = lastTurns.get(key)
+      if (!previous || turn.last_turn > previous) {
+        lastTurns.set(key, turn.last_turn)
+      }
+    }
+    return lastTurns
+  }
+
+  /**
+   * Where a new request goes in singer rotation: a singer's Nth song lands in round N, after
+   * everyone's earlier rounds. Within its round it goes behind singers whose last turn was
+   * no more recent than theirs, so someone who just sang waits for those who haven't.
+   */
+  private getRotationInsertIndex(
+    pending: Array<Pick<QueueItem, 'singer_name'>>,
+    singerName: string,
+    lastTurns: Map<string, string>
+  ): number {
+    const key = singerKey(singerName)
+    const turn = lastTurns.get(key) ?? ''
+    const round = pending.filter(item => singerKey(item.singer_name) === key).length
+
+    const rounds = new Map<string, number>()
+    let insertIndex = 0
+    pending.forEach((item, index) => {
+      const itemKey = singerKey(item.singer_name)
+      const itemRound = rounds.get(itemKey) ?? 0
+      rounds.set(itemKey, itemRound + 1)
+
+      const itemTurn = lastTurns.get(itemKey) ?? ''
+      if (itemRound < round || (itemRound === round && itemTurn <= turn)) {
+        insertIndex = index + 1
+      }
+    })
+    return insertIndex
   }
 
   setQueueItemStatus(queueId: number, status: QueueItem['status']): void {
     if (!this.db) throw new Error('Database not initialized')
 
-    const stmt = this.db.prepare('UPDATE queue SET status = ? WHERE id = ?')
+    // Starting to play counts as the singer's turn for the rotation
+    const stmt = status === 'playing'
+      ? this.db.prepare('UPDATE queue SET status = ?, started_at = CURRENT_TIMESTAMP WHERE id = ?')
+      : this.db.prepare('UPDATE queue SET status = ? WHERE id = ?')
     stmt.run(status, queueId)
   }
 
@@ -386,6 +928,87 @@ class CatalogDatabase {
     return stmt.all(limit) as Array<{ song_id: number; singer_name: string; played_at: string; title: string }>
   }
 
+  // Singer profiles
+  getSinger(id: number): Singer | null {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('SELECT * FROM singers WHERE id = ?')
+    return (stmt.get(id) as Singer) || null
+  }
+
+  getSingerByName(name: string): Singer | null {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('SELECT * FROM singers WHERE LOWER(TRIM(name)) = LOWER(TRIM(?))')
+    return (stmt.get(name) as Singer) || null
+  }
+
+  createSinger(name: string, pinHash: string | null): Singer {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('INSERT INTO singers (name, pin_hash) VALUES (?, ?)')
+    const result = stmt.run(name.trim(), pinHash)
+    return this.getSinger(result.lastInsertRowid as number)!
+  }
+
+  // Profiles someone has locked with a PIN, for the host to reset
+  getPinProtectedSingers(): Singer[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('SELECT * FROM singers WHERE pin_hash IS NOT NULL ORDER BY name COLLATE NOCASE')
+    return stmt.all() as Singer[]
+  }
+
+  setSingerPin(id: number, pinHash: string | null): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('UPDATE singers SET pin_hash = ? WHERE id = ?')
+    stmt.run(pinHash, id)
+  }
+
+  // Most recently added first
+  getFavorites(singerId: number): Song[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT s.* FROM singer_favorites f
+      JOIN songs s ON f.song_id = s.id
+      WHERE f.singer_id = ?
+      ORDER BY f.added_at DESC, f.rowid DESC
+    `)
+    return stmt.all(singerId) as Song[]
+  }
+
+  addFavorite(singerId: number, songId: number): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('INSERT OR IGNORE INTO singer_favorites (singer_id, song_id) VALUES (?, ?)')
+    stmt.run(singerId, songId)
+  }
+
+  removeFavorite(singerId: number, songId: number): boolean {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare('DELETE FROM singer_favorites WHERE singer_id = ? AND song_id = ?')
+    return stmt.run(singerId, songId).changes > 0
+  }
+
+  // Songs played under this singer name, most recently sung first
+  getSungSongs(singerName: string, limit = 50): SungSong[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stmt = this.db.prepare(`
+      SELECT s.*, COUNT(h.id) as times_sung, MAX(h.played_at) as last_sung_at
+      FROM play_history h
+      JOIN songs s ON h.song_id = s.id
+      WHERE LOWER(TRIM(h.singer_name)) = LOWER(TRIM(?))
+      GROUP BY s.id
+      ORDER BY last_sung_at DESC
+      LIMIT ?
+    `)
+    return stmt.all(singerName, limit) as SungSong[]
+  }
+
   getPopularSongs(limit = 20): Song[] {
     if (!this.db) return []
 
@@ -462,22 +1085,7 @@ class CatalogDatabase {
       return this.getSongsByLanguage(language, limit)
     }
 
-    const searchPattern = `%${query}%`
-    const exactPattern = `${query}%`
-    const stmt = this.db.prepare(`
-      SELECT * FROM songs
-      WHERE language = ? AND (title LIKE ? OR artist LIKE ?)
-      ORDER BY
-        CASE
-          WHEN title LIKE ? THEN 1
-          WHEN artist LIKE ? THEN 2
-          ELSE 3
-        END,
-        title
-      LIMIT ?
-    `)
-
-    return stmt.all(language, searchPattern, searchPattern, exactPattern, exactPattern, limit) as Song[]
+    return this.searchSongs(query, limit, { language })
   }
 
   getLanguageCounts(): { language: string; count: number }[] {
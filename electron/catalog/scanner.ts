@@ -1,13 +1,28 @@
 import * as fs from 'fs'
 import * as path from 'path'
 import * as crypto from 'crypto'
-import { catalogDb, type FileType } from './database.js'
-import { getSongMetadata, parseKarFile } from '../midi/parser.js'
+import { catalogDb, type FileType, type Song } from './database.js'
+import { getSongMetadata, parseKarFile, groupLyricsIntoLines } from '../midi/parser.js'
+import type { LyricCharset } from '../midi/charset.js'
+import { parseLrcFile } from '../lrc/parser.js'
 
-interface ScannedFile {
+export interface ScannedFile {
   path: string
   type: FileType
-  audioPath?: string // For CDG files, the associated MP3 path
+  audioPath?: string // For CDG and LRC files, the associated audio path
+}
+
+const MIDI_EXTENSIONS = ['.kar', '.mid', '.midi']
+const AUDIO_EXTENSIONS = ['.mp3', '.ogg', '.wav', '.m4a']
+const VIDEO_EXTENSIONS = ['.mp4', '.mkv', '.webm']
+
+/**
+ * Whether a file name could belong to a catalog entry (MIDI/KAR, CDG, LRC, their audio, or a video)
+ */
+export function isKaraokeFileName(fileName: string): boolean {
+  const ext = path.extname(fileName).toLowerCase()
+  return MIDI_EXTENSIONS.includes(ext) || ext === '.cdg' || ext === '.lrc' ||
+    AUDIO_EXTENSIONS.includes(ext) || VIDEO_EXTENSIONS.includes(ext)
 }
 
 // Common Spanish words for language detection
@@ -23,11 +38,18 @@ const SPANISH_WORDS = new Set([
 
 /**
  * Detect the language of lyrics text
- * Returns 'es' for Spanish, 'en' for English (default)
+ * Returns 'es' for Spanish, 'other' for mostly non-Latin scripts, 'en' for English (default)
  */
 function detectLanguage(text: string, title: string): string {
   const combined = `${title} ${text}`.toLowerCase()
 
+  // Japanese, Korean, Russian...
+  const latinLetters = combined.match(/\p{Script=Latin}/gu)?.length ?? 0
+  const otherLetters = (combined.match(/\p{L}/gu)?.length ?? 0) - latinLetters
+  if (otherLetters > latinLetters) {
+    return 'other'
+  }
+
   // Check for Spanish-specific characters
   const hasSpanishChars = /[ñáéíóúü¿¡]/.test(combined)
 
@@ -52,23 +74,42 @@ function detectLanguage(text: string, title: string): string {
 }
 
 /**
- * Get lyrics text from a file for language detection
+ * Get lyrics text from a file for language detection and the search index
+ * Syllables are joined into display lines so words stay whole
  */
-function getLyricsText(filePath: string): string {
+function getLyricsText(filePath: string, charset: LyricCharset | null, fileType: FileType = 'midi'): string {
   try {
-    const { lyrics } = parseKarFile(filePath)
-    return lyrics.map(line => line.text).join(' ')
+    const lines = fileType === 'lrc'
+      ? parseLrcFile(filePath, charset).lines
+      : groupLyricsIntoLines(parseKarFile(filePath, charset).lyrics)
+    return lines
+      .filter(line => !line.isMusicalBreak)
+      .map(line => line.text)
+      .join('\n')
   } catch {
     return ''
   }
 }
 
+/**
+ * Set a song's lyrics encoding (null to detect it again) and redo what depends on the
+ * decoded text: its language and the lyrics in the search index
+ */
+export function applyLyricsCharset(song: Song, charset: LyricCharset | null): void {
+  const lyricsText = getLyricsText(song.file_path, charset)
+  const metadata = getSongMetadata(song.file_path, charset)
+  const language = metadata.language || detectLanguage(lyricsText, song.title)
+  catalogDb.setLyricsCharset(song.id, charset, language, lyricsText)
+  catalogDb.setKarHeaders(song.id, metadata.karHeaders)
+}
+
 export interface ScanProgress {
   total: number
   processed: number
   current: string
   added: number
   skipped: number
+  removed: number
   errors: number
 }
 
@@ -76,6 +117,7 @@ export interface ScanResult {
   total: number
   added: number
   skipped: number
+  removed: number
   errors: number
   duration: number
 }
@@ -92,7 +134,9 @@ async function getCdgDuration(audioPath: string): Promise<number> {
 }
 
 /**
- * Scan a directory for KAR, MIDI, and CDG files
+ * Scan a directory for KAR, MIDI, CDG, LRC, and video files
+ * Files whose mtime and size match the database are skipped without being read;
+ * songs under the directory whose files are gone are removed.
  */
 export async function scanCatalogDirectory(
   directoryPath: string,
@@ -100,44 +144,65 @@ export async function scanCatalogDirectory(
 ): Promise<ScanResult> {
   const startTime = Date.now()
 
-  // Find all karaoke files (MIDI, KAR, CDG+MP3)
-  const files = findKaraokeFiles(directoryPath)
+  // Find all karaoke files (MIDI, KAR, CDG+MP3, LRC+audio, video)
+  const unreadableDirs: string[] = []
+  const files = findKaraokeFiles(directoryPath, unreadableDirs)
 
   const result: ScanResult = {
     total: files.length,
     added: 0,
     skipped: 0,
+    removed: 0,
     errors: 0,
     duration: 0
   }
 
-  console.log(`Found ${files.length} karaoke files to scan (MIDI/KAR/CDG)`)
+  const reportProgress = (processed: number, current: string) => {
+    if (onProgress) {
+      onProgress({
+        total: files.length,
+        processed,
+        current,
+        added: result.added,
+        skipped: result.skipped,
+        removed: result.removed,
+        errors: result.errors
+      })
+    }
+  }
+
+  console.log(`Found ${files.length} karaoke files to scan (MIDI/KAR/CDG/LRC/video)`)
 
   for (let i = 0; i < files.length; i++) {
     const file = files[i]
     const filePath = file.path
 
     try {
+      const stat = fs.statSync(filePath)
+      const mtime = Math.floor(stat.mtimeMs)
+      const size = stat.size
+
       // Check if file already exists in database
       const existing = catalogDb.getSongByPath(filePath)
 
       if (existing) {
-        // Check if file has been modified
-        const currentHash = getFileHash(filePath)
-
-        if (existing.file_hash === currentHash) {
-          result.skipped++
+        // Same mtime and size means unchanged; otherwise fall back to the hash (e.g. a file was touched or copied)
+        // Videos aren't hashed (see below), so for them mtime and size decide
+        let unchanged = existing.file_mtime === mtime && existing.file_size === size
+        if (!unchanged && file.type !== 'video' && existing.file_hash && existing.file_hash === getFileHash(filePath)) {
+          catalogDb.updateSongFileStat(existing.id, mtime, size)
+          unchanged = true
+        }
 
-          if (onProgress) {
-            onProgress({
-              total: files.length,
-              processed: i + 1,
-              current: path.basename(filePath),
-              added: result.added,
-              skipped: result.skipped,
-              errors: result.errors
-            })
+        if (unchanged) {
+          // Songs scanned before the search index existed still need their lyrics indexed
+          if ((existing.file_type === 'midi' || existing.file_type === 'lrc') && catalogDb.needsLyricsIndex(existing.id)) {
+            const lyricsText = getLyricsText(filePath, existing.lyrics_charset, existing.file_type)
+            catalogDb.indexSongText(existing.id, existing.title, existing.artist, lyricsText)
           }
+
+          result.skipped++
+          reportProgress(i + 1, path.basename(filePath))
           continue
         }
       }
@@ -154,17 +219,24 @@ export async function scanCatalogDirectory(
         title = filenameMatch[2].trim()
       }
 
+      // A changed file keeps the lyrics encoding chosen for it
+      const lyricsCharset = existing?.lyrics_charset ?? null
+
       if (file.type === 'midi') {
         // Parse MIDI/KAR file for metadata
-        const metadata = getSongMetadata(filePath)
-        title = metadata.title || title
+        // Names in the file (KAR header, track name) are used when the filename isn't "Artist - Title"
+        const metadata = getSongMetadata(filePath, lyricsCharset)
+        if (!filenameMatch) {
+          title = metadata.title || title
+          artist = metadata.artist
+        }
 
-        // Detect language from lyrics and title
-        const lyricsText = getLyricsText(filePath)
-        const language = detectLanguage(lyricsText, title)
+        // The KAR header may say the language; otherwise detect it from lyrics and title
+        const lyricsText = getLyricsText(filePath, lyricsCharset)
+        const language = metadata.language || detectLanguage(lyricsText, title)
 
         // Add to database
-        catalogDb.addSong({
+        const songId = catalogDb.addSong({
           file_path: filePath,
           title,
           artist,
@@ -175,8 +247,38 @@ export async function scanCatalogDirectory(
           language,
           file_type: 'midi',
           audio_path: null,
-          video_url: null
-        })
+          video_url: null,
+          file_mtime: mtime,
+          file_size: size,
+          lyrics_charset: lyricsCharset
+        }, lyricsText)
+        catalogDb.setKarHeaders(songId, metadata.karHeaders)
+      } else if (file.type === 'lrc') {
+        // LRC tags name the song when the filename doesn't
+        const lrc = parseLrcFile(filePath, lyricsCharset)
+        if (!filenameMatch) {
+          title = lrc.title || title
+          artist = lrc.artist || artist
+        }
+
+        const lyricsText = getLyricsText(filePath, lyricsCharset, 'lrc')
+
+        catalogDb.addSong({
+          file_path: filePath,
+          title,
+          artist,
+          duration_ms: lrc.durationMs,
+          has_lyrics: lrc.lines.length > 0,
+          track_count: 0,
+          file_hash: getFileHash(filePath),
+          language: detectLanguage(lyricsText, title),
+          file_type: 'lrc',
+          audio_path: file.audioPath || null,
+          video_url: null,
+          file_mtime: mtime,
+          file_size: size,
+          lyrics_charset: lyricsCharset
+        }, lyricsText)
       } else if (file.type === 'cdg') {
         // CDG files have graphics, not parseable lyrics
         // Duration would come from the audio file
@@ -193,8 +295,30 @@ export async function scanCatalogDirectory(
           language: 'en', // Default language for CDG (can't detect from graphics)
           file_type: 'cdg',
           audio_path: file.audioPath || null,
-          video_url: null
-        })
+          video_url: null,
+          file_mtime: mtime,
+          file_size: size,
+          lyrics_charset: null
+        }, '')
+      } else if (file.type === 'video') {
+        // Lyrics are burned into the picture; the duration comes from the video element when it plays
+        // Videos run to gigabytes, too big to read whole for a hash
+        catalogDb.addSong({
+          file_path: filePath,
+          title,
+          artist,
+          duration_ms: 0,
+          has_lyrics: true,
+          track_count: 0,
+          file_hash: '',
+          language: detectLanguage('', title),
+          file_type: 'video',
+          audio_path: null,
+          video_url: null,
+          file_mtime: mtime,
+          file_size: size,
+          lyrics_charset: null
+        }, '')
       }
 
       result.added++
@@ -203,16 +327,7 @@ export async function scanCatalogDirectory(
       result.errors++
     }
 
-    if (onProgress) {
-      onProgress({
-        total: files.length,
-        processed: i + 1,
-        current: path.basename(filePath),
-        added: result.added,
-        skipped: result.skipped,
-        errors: result.errors
-      })
-    }
+    reportProgress(i + 1, path.basename(filePath))
 
     // Yield to event loop occasionally to prevent blocking
     if (i % 50 === 0) {
@@ -220,26 +335,44 @@ export async function scanCatalogDirectory(
     }
   }
 
+  // Drop songs whose files were deleted or renamed away
+  // Skipped if the folder itself is gone (e.g. an unmounted drive) so the library isn't wiped,
+  // and under folders that couldn't be read (permissions, a network share dropping out)
+  if (fs.existsSync(directoryPath)) {
+    const foundPaths = new Set(files.map(f => f.path))
+    const isUnreadable = (filePath: string) => unreadableDirs.some(dir => filePath.startsWith(dir + path.sep))
+    for (const song of catalogDb.getSongsUnderPath(directoryPath)) {
+      if (!foundPaths.has(song.file_path) && !isUnreadable(song.file_path)) {
+        console.log(`Removing missing file from catalog: ${song.file_path}`)
+        catalogDb.deleteSong(song.id)
+        result.removed++
+      }
+    }
+    if (result.removed > 0) {
+      reportProgress(files.length, '')
+    }
+  }
+
   result.duration = Date.now() - startTime
 
-  console.log(`Scan complete: ${result.added} added, ${result.skipped} skipped, ${result.errors} errors in ${result.duration}ms`)
+  console.log(`Scan complete: ${result.added} added, ${result.skipped} skipped, ${result.removed} removed, ${result.errors} errors in ${result.duration}ms`)
 
   return result
 }
 
 /**
- * Recursively find all MIDI, KAR, and CDG files in a directory
- * CDG files are only included if they have a matching MP3 file
- * MIDI/KAR files take precedence over CDG files with the same base name
+ * Recursively find all MIDI, KAR, CDG, LRC, and video files in a directory
+ * CDG and LRC files are only included if they have a matching audio file
+ * MIDI/KAR files take precedence over CDG files, CDG over LRC, and LRC over video, with the same base name
+ * Directories that can't be read are added to unreadableDirs
  */
-function findKaraokeFiles(directoryPath: string): ScannedFile[] {
+export function findKaraokeFiles(directoryPath: string, unreadableDirs: string[] = []): ScannedFile[] {
   const midiFiles: ScannedFile[] = []
   const cdgFiles: Map<string, { cdgPath: string; mp3Path?: string }> = new Map()
+  const lrcFiles: Map<string, { lrcPath: string; audioPath: string }> = new Map()
+  const videoFiles: Map<string, string> = new Map()
   const midiBasenames: Set<string> = new Set() // Track MIDI/KAR base names to avoid duplicates
 
-  const midiExtensions = ['.kar', '.mid', '.midi']
-  const audioExtensions = ['.mp3', '.ogg', '.wav', '.m4a']
-
   function scan(dir: string) {
     try {
       const entries = fs.readdirSync(dir, { withFileTypes: true })
@@ -269,30 +402,41 @@ function findKaraokeFiles(directoryPath: string): ScannedFile[] {
       for (const [baseName, files] of directoryFiles) {
         let hasMidi = false
         let cdgPath: string | null = null
+        let lrcPath: string | null = null
         let audioPath: string | null = null
+        let videoPath: string | null = null
 
         for (const filePath of files) {
           const ext = path.extname(filePath).toLowerCase()
 
-          if (midiExtensions.includes(ext)) {
+          if (MIDI_EXTENSIONS.includes(ext)) {
             // Found a MIDI/KAR file - add it directly
             midiFiles.push({ path: filePath, type: 'midi' })
             midiBasenames.add(baseName)
             hasMidi = true
           } else if (ext === '.cdg') {
             cdgPath = filePath
-          } else if (audioExtensions.includes(ext)) {
+          } else if (ext === '.lrc') {
+            lrcPath = filePath
+          } else if (AUDIO_EXTENSIONS.includes(ext)) {
             audioPath = filePath
+          } else if (VIDEO_EXTENSIONS.includes(ext)) {
+            videoPath = filePath
           }
         }
 
         // If we have CDG + audio but no MIDI, track it
         if (!hasMidi && cdgPath && audioPath) {
           cdgFiles.set(baseName, { cdgPath, mp3Path: audioPath })
+        } else if (!hasMidi && lrcPath && audioPath) {
+          lrcFiles.set(baseName, { lrcPath, audioPath })
+        } else if (!hasMidi && videoPath) {
+          videoFiles.set(baseName, videoPath)
         }
       }
     } catch (error) {
       console.error(`Error scanning directory ${dir}:`, error)
+      unreadableDirs.push(dir)
     }
   }
 
@@ -305,6 +449,20 @@ function findKaraokeFiles(directoryPath: string): ScannedFile[] {
     }
   }
 
+  // Add LRC files that have neither
+  for (const [baseName, { lrcPath, audioPath }] of lrcFiles) {
+    if (!midiBasenames.has(baseName) && !cdgFiles.has(baseName)) {
+      midiFiles.push({ path: lrcPath, type: 'lrc', audioPath })
+    }
+  }
+
+  // Add videos that aren't the picture for one of the songs above
+  for (const [baseName, videoPath] of videoFiles) {
+    if (!midiBasenames.has(baseName) && !cdgFiles.has(baseName) && !lrcFiles.has(baseName)) {
+      midiFiles.push({ path: videoPath, type: 'video' })
+    }
+  }
+
   return midiFiles
 }
 
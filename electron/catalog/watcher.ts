@@ -0,0 +1,197 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as crypto from 'crypto'
+import { EventEmitter } from 'events'
+import {
+  scanCatalogDirectory,
+  findKaraokeFiles,
+  isKaraokeFileName,
+  validateCatalogPath,
+  type ScanResult
+} from './scanner.js'
+
+// Wait for a burst of file events (copying a folder, a rename) to settle before rescanning
+const CHANGE_DEBOUNCE_MS = 1500
+
+// How often folders without fs.watch support are checked for changes
+const POLL_INTERVAL_MS = 30000
+
+interface WatchedRoot {
+  path: string
+  watcher: fs.FSWatcher | null
+  pollTimer: NodeJS.Timeout | null
+  debounceTimer: NodeJS.Timeout | null
+  snapshot: string // Polling only: digest of every catalog file's path, size and mtime
+}
+
+/**
+ * Keeps the songs table in sync with the catalog folders.
+ * Each folder is watched with fs.watch (falling back to polling where that isn't available)
+ * and rescanned after changes; unchanged files are skipped by mtime+size, so a rescan is cheap.
+ * All scans, including manual ones, run one at a time.
+ *
+ * Events: 'progress' (ScanProgress), 'complete' (rootPath, ScanResult)
+ */
+class CatalogWatcher extends EventEmitter {
+  private roots: Map<string, WatchedRoot> = new Map()
+  private pendingScans: Set<string> = new Set()
+  private scanChain: Promise<unknown> = Promise.resolve()
+
+  /**
+   * Watch exactly these folders, replacing the previous set.
+   * Newly added folders are synced straight away to pick up changes made while we weren't watching.
+   */
+  watch(rootPaths: string[]): void {
+    const wanted = new Set(
+      rootPaths.filter(p => p.trim()).map(p => path.resolve(p))
+    )
+
+    for (const rootPath of [...this.roots.keys()]) {
+      if (!wanted.has(rootPath)) {
+        this.unwatchRoot(rootPath)
+      }
+    }
+
+    for (const rootPath of wanted) {
+      if (this.roots.has(rootPath)) continue
+      this.watchRoot(rootPath)
+      this.requestScan(rootPath)
+    }
+  }
+
+  stop(): void {
+    for (const rootPath of [...this.roots.keys()]) {
+      this.unwatchRoot(rootPath)
+    }
+  }
+
+  getWatchedRoots(): string[] {
+    return [...this.roots.keys()]
+  }
+
+  /** Scan a folder now (e.g. the Scan button), queued behind any scan already running */
+  scan(rootPath: string): Promise<ScanResult> {
+    return this.enqueue(() => this.runScan(path.resolve(rootPath)))
+  }
+
+  private watchRoot(rootPath: string): void {
+    const root: WatchedRoot = {
+      path: rootPath,
+      watcher: null,
+      pollTimer: null,
+      debounceTimer: null,
+      snapshot: ''
+    }
+    this.roots.set(rootPath, root)
+
+    if (!validateCatalogPath(rootPath).valid) {
+      // Folder isn't there yet (e.g. an unmounted drive) - poll until it shows up
+      console.warn(`Catalog folder unavailable, polling for it: ${rootPath}`)
+      this.startPolling(root)
+      return
+    }
+
+    try {
+      root.watcher = fs.watch(rootPath, { recursive: true }, (_eventType, fileName) => {
+        // Directory events have no extension; they can carry a whole renamed folder of songs
+        if (!fileName || !path.extname(fileName) || isKaraokeFileName(fileName)) {
+          this.scheduleScan(root)
+        }
+      })
+
+      root.watcher.on('error', (error) => {
+        console.warn(`Catalog watcher failed for ${rootPath}, falling back to polling:`, error)
+        root.watcher?.close()
+        root.watcher = null
+        this.startPolling(root)
+      })
+
+      console.log(`Watching catalog folder: ${rootPath}`)
+    } catch (error) {
+      console.warn(`fs.watch unavailable for ${rootPath}, falling back to polling:`, error)
+      this.startPolling(root)
+    }
+  }
+
+  private unwatchRoot(rootPath: string): void {
+    const root = this.roots.get(rootPath)
+    if (!root) return
+
+    root.watcher?.close()
+    if (root.pollTimer) clearInterval(root.pollTimer)
+    if (root.debounceTimer) clearTimeout(root.debounceTimer)
+    this.roots.delete(rootPath)
+    console.log(`Stopped watching catalog folder: ${rootPath}`)
+  }
+
+  private startPolling(root: WatchedRoot): void {
+    if (root.pollTimer) return
+
+    root.snapshot = takeSnapshot(root.path)
+    root.pollTimer = setInterval(() => {
+      const snapshot = takeSnapshot(root.path)
+      if (snapshot !== root.snapshot) {
+        root.snapshot = snapshot
+        this.requestScan(root.path)
+      }
+    }, POLL_INTERVAL_MS)
+  }
+
+  private scheduleScan(root: WatchedRoot): void {
+    if (root.debounceTimer) clearTimeout(root.debounceTimer)
+    root.debounceTimer = setTimeout(() => {
+      root.debounceTimer = null
+      this.requestScan(root.path)
+    }, CHANGE_DEBOUNCE_MS)
+  }
+
+  /** Queue a background scan; repeated requests while one is waiting collapse into it */
+  private requestScan(rootPath: string): void {
+    if (this.pendingScans.has(rootPath)) return
+    this.pendingScans.add(rootPath)
+
+    this.enqueue(async () => {
+      // Changes arriving once this scan has started need a scan of their own
+      this.pendingScans.delete(rootPath)
+      if (!this.roots.has(rootPath) || !validateCatalogPath(rootPath).valid) return
+      await this.runScan(rootPath)
+    }).catch((error) => {
+      console.error(`Background scan of ${rootPath} failed:`, error)
+    })
+  }
+
+  private async runScan(rootPath: string): Promise<ScanResult> {
+    const result = await scanCatalogDirectory(rootPath, (progress) => {
+      this.emit('progress', progress)
+    })
+    this.emit('complete', rootPath, result)
+    return result
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.scanChain.then(task)
+    this.scanChain = run.catch(() => undefined)
+    return run
+  }
+}
+
+/**
+ * Digest of a folder's catalog files, used by polling to tell whether anything changed
+ */
+function takeSnapshot(rootPath: string): string {
+  if (!validateCatalogPath(rootPath).valid) return ''
+
+  const hash = crypto.createHash('md5')
+  for (const file of findKaraokeFiles(rootPath)) {
+    try {
+      const stat = fs.statSync(file.path)
+      hash.update(`${file.path}\0${stat.size}\0${stat.mtimeMs}\n`)
+    } catch {
+      // Vanished between listing and stat; the next poll will see it gone
+    }
+  }
+  return hash.digest('hex')
+}
+
+// Export singleton instance
+export const catalogWatcher = new CatalogWatcher()
@@ -200,6 +200,9 @@ export class CdgPlayer extends EventEmitter {
 
     this.state.currentTime = audioTimeMs
 
+    // Re-anchor the internal clock so the animation loop follows the audio
+    this.startTime = Date.now() - audioTimeMs
+
     // Check for end
     if (audioTimeMs >= this.state.duration) {
       this.stop()
@@ -208,6 +211,16 @@ export class CdgPlayer extends EventEmitter {
     }
   }
 
+  /**
+   * End playback early, e.g. when the audio track finishes before the graphics
+   */
+  end(): void {
+    if (!this.state.playing) return
+
+    this.stop()
+    this.emit('ended')
+  }
+
   /**
    * Get current player state
    */
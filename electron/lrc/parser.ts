@@ -0,0 +1,128 @@
+/**
+ * LRC Parser
+ *
+ * LRC files time the lyrics of a separate audio track, a timestamp per line:
+ *   [ti:Song title]
+ *   [ar:Artist]
+ *   [00:12.34]First line of lyrics
+ *
+ * Enhanced LRC adds a timestamp per word:
+ *   [00:12.34]<00:12.34>First <00:12.80>line <00:13.10>of <00:13.40>lyrics
+ *
+ * Lines are turned into the same syllable events KAR lyrics give, so they group into
+ * display lines (and musical breaks) the same way.
+ */
+
+import * as fs from 'fs'
+import { groupLyricsIntoLines, type LyricEvent, type LyricLine } from '../midi/parser.js'
+import { decodeText, detectCharset, type LyricCharset } from '../midi/charset.js'
+
+export interface ParsedLrc {
+  title: string | null // [ti:] tag
+  artist: string | null // [ar:] tag
+  durationMs: number // [length:] tag, or 0 (the audio file knows)
+  lines: LyricLine[]
+  charset: LyricCharset
+}
+
+// [mm:ss], [mm:ss.xx] or [mm:ss:xx] at the start of a line (several for repeated lines)
+const LINE_TIME_PATTERN = /^\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/
+// Word timestamps: <mm:ss.xx>, or [mm:ss.xx] inside the line as some editors write them
+const WORD_TIME_PATTERN = /[<[](\d+):(\d{1,2})(?:[.:](\d{1,3}))?[>\]]/g
+// ID tags such as [ti:Title], [ar:Artist], [offset:+250]
+const ID_TAG_PATTERN = /^\[([a-z]+):(.*)\]$/i
+const LENGTH_PATTERN = /^(\d+):(\d{1,2})(?:[.:](\d{1,3}))?$/
+
+// "5" -> 0.5, "34" -> 0.34, "345" -> 0.345
+function toSeconds(minutes: string, seconds: string, fraction?: string): number {
+  const fractionSeconds = fraction ? Number(fraction) / 10 ** fraction.length : 0
+  return Number(minutes) * 60 + Number(seconds) + fractionSeconds
+}
+
+/**
+ * Split a line's text into timed words. Without word timestamps the whole line is one
+ * syllable, so it lights up at once.
+ */
+function splitWords(text: string, lineTime: number): { text: string; time: number }[] {
+  const words: { text: string; time: number }[] = []
+  let time = lineTime
+  let lastIndex = 0
+
+  for (const match of text.matchAll(WORD_TIME_PATTERN)) {
+    const segment = text.slice(lastIndex, match.index)
+    if (segment.trim()) words.push({ text: segment, time })
+    time = toSeconds(match[1], match[2], match[3])
+    lastIndex = match.index! + match[0].length
+  }
+
+  const rest = text.slice(lastIndex)
+  if (rest.trim()) words.push({ text: rest, time })
+  return words
+}
+
+/**
+ * Parse an LRC or enhanced LRC file into display lines
+ * The charset is detected unless one is given (a per-song override)
+ */
+export function parseLrcFile(filePath: string, charset?: LyricCharset | null): ParsedLrc {
+  const buffer = fs.readFileSync(filePath)
+  const textCharset = charset || detectCharset([buffer])
+  const tags: Record<string, string> = {}
+  const timedLines: { time: number; text: string }[] = []
+
+  for (const rawLine of decodeText(buffer, textCharset).split(/\r?\n/)) {
+    let text = rawLine.trim()
+    const times: number[] = []
+
+    let match: RegExpMatchArray | null
+    while ((match = text.match(LINE_TIME_PATTERN))) {
+      times.push(toSeconds(match[1], match[2], match[3]))
+      text = text.slice(match[0].length)
+    }
+
+    if (times.length === 0) {
+      const tag = text.match(ID_TAG_PATTERN)
+      if (tag) tags[tag[1].toLowerCase()] = tag[2].trim()
+      continue
+    }
+
+    // A chorus written once may be timed for each time it's sung
+    for (const time of times) {
+      timedLines.push({ time, text })
+    }
+  }
+
+  // Lines listed with several times end up out of order; sort is stable for the rest
+  timedLines.sort((a, b) => a.time - b.time)
+
+  // A positive offset shows the lyrics sooner (milliseconds)
+  const offset = (Number(tags.offset) || 0) / 1000
+
+  const events: LyricEvent[] = []
+  for (const line of timedLines) {
+    const words = splitWords(line.text, line.time)
+
+    // Each line opens with a "/" line break, as in KAR lyrics; an empty line just ends the one before
+    if (words.length === 0) {
+      events.push({ text: '/', ticks: 0, time: Math.max(0, line.time - offset) })
+      continue
+    }
+    words.forEach((word, i) => {
+      events.push({
+        text: i === 0 ? '/' + word.text.trimStart() : word.text,
+        ticks: 0,
+        time: Math.max(0, word.time - offset)
+      })
+    })
+  }
+
+  const length = tags.length?.match(LENGTH_PATTERN)
+
+  return {
+    title: tags.ti || null,
+    artist: tags.ar || null,
+    durationMs: length ? Math.round(toSeconds(length[1], length[2], length[3]) * 1000) : 0,
+    lines: groupLyricsIntoLines(events),
+    charset: textCharset
+  }
+}
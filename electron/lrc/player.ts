@@ -0,0 +1,195 @@
+/**
+ * LRC Player
+ *
+ * Follows an audio track played by the lyrics window and emits the lyrics for the
+ * current position. Like CDG, the audio element is the clock: it reports its time and
+ * the player runs its own clock in between, so syllables light up smoothly.
+ */
+
+import { EventEmitter } from 'events'
+import type { LyricLine } from '../midi/parser.js'
+import type { ParsedLrc } from './parser.js'
+
+export interface LrcPlayerState {
+  playing: boolean
+  paused: boolean
+  currentTime: number
+  duration: number
+  title: string
+  singerName: string
+  songId: number
+  fileType: 'lrc'
+  audioPath: string | null
+}
+
+export class LrcPlayer extends EventEmitter {
+  private lines: LyricLine[] = []
+  private state: LrcPlayerState = {
+    playing: false,
+    paused: false,
+    currentTime: 0,
+    duration: 0,
+    title: '',
+    singerName: '',
+    songId: 0,
+    fileType: 'lrc',
+    audioPath: null
+  }
+  private playbackInterval: NodeJS.Timeout | null = null
+  private lastUpdateTime: number = 0
+  private startTime: number = 0
+  private pauseTime: number = 0
+
+  /**
+   * Load parsed LRC lyrics and the audio they belong to
+   */
+  loadSong(lrc: ParsedLrc, audioPath: string, title: string, singerName: string, songId: number): void {
+    this.stop()
+
+    this.lines = lrc.lines
+    this.state = {
+      playing: false,
+      paused: false,
+      currentTime: 0,
+      duration: lrc.durationMs,
+      title,
+      singerName,
+      songId,
+      fileType: 'lrc',
+      audioPath
+    }
+
+    console.log(`LRC loaded: ${title} (${lrc.lines.length} lines, ${lrc.charset})`)
+  }
+
+  /**
+   * Start or resume playback
+   * Note: Audio playback is started by the lyrics window when it sees the state change
+   */
+  play(): void {
+    if (!this.state.audioPath) return
+    if (this.state.playing && !this.state.paused) return
+
+    if (this.state.paused) {
+      this.startTime += Date.now() - this.pauseTime
+    } else {
+      this.startTime = Date.now()
+    }
+
+    this.state.playing = true
+    this.state.paused = false
+    this.lastUpdateTime = Date.now()
+
+    this.startPlaybackLoop()
+    this.emit('play', this.getState())
+  }
+
+  pause(): void {
+    if (!this.state.playing || this.state.paused) return
+
+    this.state.paused = true
+    this.pauseTime = Date.now()
+    this.state.currentTime = this.pauseTime - this.startTime
+    this.stopPlaybackLoop()
+    this.emit('pause', this.getState())
+    this.emit('lyrics', this.getCurrentLyrics())
+  }
+
+  stop(): void {
+    this.stopPlaybackLoop()
+
+    this.state = {
+      ...this.state,
+      playing: false,
+      paused: false,
+      currentTime: 0
+    }
+
+    this.emit('stop', this.getState())
+  }
+
+  /**
+   * Jump to a position; the lyrics window moves the audio to match
+   */
+  seek(timeMs: number): void {
+    if (!this.state.audioPath) return
+
+    timeMs = Math.max(0, this.state.duration > 0 ? Math.min(timeMs, this.state.duration) : timeMs)
+    this.state.currentTime = timeMs
+    this.startTime = Date.now() - timeMs
+    this.pauseTime = Date.now()
+
+    this.emit('seek', { timeMs, state: this.getState() })
+    this.emit('lyrics', this.getCurrentLyrics())
+  }
+
+  /**
+   * Sync with the audio element's time (and duration, which LRC files rarely state)
+   */
+  syncToAudioTime(audioTimeMs: number, durationMs?: number): void {
+    if (durationMs && durationMs > 0) this.state.duration = durationMs
+    if (!this.state.playing || this.state.paused) return
+
+    this.state.currentTime = audioTimeMs
+    this.startTime = Date.now() - audioTimeMs
+  }
+
+  /**
+   * The audio finished
+   */
+  end(): void {
+    if (!this.state.playing) return
+
+    this.stop()
+    this.emit('ended')
+  }
+
+  getState(): LrcPlayerState {
+    return { ...this.state }
+  }
+
+  /** Lyrics at the current position, in the shape the MIDI player emits */
+  getCurrentLyrics() {
+    const currentTime = this.state.currentTime / 1000
+
+    let currentLineIndex = -1
+    for (let i = 0; i < this.lines.length && this.lines[i].startTime <= currentTime; i++) {
+      currentLineIndex = i
+    }
+    const line = this.lines[currentLineIndex]
+
+    return {
+      lines: this.lines,
+      currentTime,
+      currentLineIndex: line && currentTime < line.endTime ? currentLineIndex : -1
+    }
+  }
+
+  private startPlaybackLoop(): void {
+    this.stopPlaybackLoop()
+
+    // ~60fps for smooth syllable highlighting
+    this.playbackInterval = setInterval(() => {
+      if (!this.state.playing || this.state.paused) return
+
+      const now = Date.now()
+      this.state.currentTime = now - this.startTime
+      this.emit('lyrics', this.getCurrentLyrics())
+
+      if (now - this.lastUpdateTime > 100) {
+        this.emit('update', this.getState())
+        this.lastUpdateTime = now
+      }
+    }, 16)
+  }
+
+  private stopPlaybackLoop(): void {
+    if (this.playbackInterval) {
+      clearInterval(this.playbackInterval)
+      this.playbackInterval = null
+    }
+  }
+}
+
+// Singleton instance
+export const lrcPlayer = new LrcPlayer()
@@ -3,10 +3,17 @@ import path from 'path'
 import { fileURLToPath } from 'url'
 
 // Import our modules
-import { catalogDb } from './catalog/database.js'
-import { scanCatalogDirectory, validateCatalogPath } from './catalog/scanner.js'
-import { parseKarFileComplete, groupLyricsIntoLines } from './midi/parser.js'
-import { midiPlayer } from './midi/player.js'
+import { catalogDb, type Song, type QueueItem } from './catalog/database.js'
+import { validateCatalogPath, applyLyricsCharset, type ScanProgress, type ScanResult } from './catalog/scanner.js'
+import { catalogWatcher } from './catalog/watcher.js'
+import { parseKarFileComplete, groupLyricsIntoLines, getLyricsCharsetSamples, getSongMetadata } from './midi/parser.js'
+import { LYRIC_CHARSET_LABELS, isLyricCharset } from './midi/charset.js'
+import { midiPlayer, clampTranspose, clampPlaybackRate } from './midi/player.js'
+import { getDefaultRoute, sanitizeRouting, sanitizeMelodyGuide, type MelodyGuide } from './midi/routing.js'
+import { cdgPlayer, type CdgPlayerState } from './cdg/player.js'
+import { lrcPlayer, type LrcPlayerState } from './lrc/player.js'
+import { parseLrcFile } from './lrc/parser.js'
+import { videoPlayer, type VideoPlayerState } from './video/player.js'
 import {
   listMidiOutputs,
   connectMidiOutput,
@@ -19,8 +26,9 @@ import {
   getUniversalMidiStatus,
   sendMidiUniversal
 } from './midi/output.js'
-import { startWebServer, stopWebServer, broadcastQueue, broadcastPlayback, getQRCode, getWifiQRCode, getWifiSSID, listSoundfonts, onQueueModified, onSettingsChanged, onPlaybackControl } from './web/server.js'
+import { startWebServer, stopWebServer, broadcastQueue, broadcastPlayback, broadcastLyrics, getQRCode, getWifiQRCode, getWifiSSID, getLocalServerUrl, listSoundfonts, onQueueModified, onSettingsChanged, onPlaybackControl } from './web/server.js'
 import { settingsStore, type Settings } from './settings/store.js'
+import { hashPin, revokeAdminSessions } from './web/auth.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -35,6 +43,8 @@ console.log('preload exists:', fs.existsSync(path.join(__dirname, 'preload.js'))
 let mainWindow: BrowserWindow | null = null
 let lyricsWindow: BrowserWindow | null = null
 let currentVideoUrl: string | null = null // Track current song's video URL for background
+let currentFileType: Song['file_type'] = 'midi' // Which player owns the current song
+let currentArtist = '' // CDG, LRC and video player state doesn't carry the artist
 
 const isDev = !app.isPackaged
 
@@ -132,10 +142,146 @@ function sendPlaybackState(state: unknown) {
   broadcastPlayback(stateWithVideo) // Send to admin portal and web clients
 }
 
+// Map CDG, LRC or video player state onto the playback state shape the renderers expect
+function toMediaPlaybackState(state: CdgPlayerState | LrcPlayerState | VideoPlayerState) {
+  return {
+    playing: state.playing,
+    paused: state.paused,
+    currentTime: state.currentTime,
+    duration: state.duration,
+    songName: state.title,
+    artist: currentArtist,
+    singer: state.singerName,
+    transpose: 0, // Key, speed and melody changes only apply to MIDI playback
+    playbackRate: 1,
+    melodyMode: 'default' as const,
+    melodyVolume: 100,
+    hasMelody: false,
+    fileType: state.fileType,
+    songId: state.songId,
+    audioPath: state.fileType === 'video' ? null : state.audioPath,
+    audioUrl: state.fileType !== 'video' && state.songId ? `${getLocalServerUrl()}/api/audio/${state.songId}` : null,
+    // The karaoke video itself, unlike videoUrl (a background behind the lyrics)
+    videoFileUrl: state.fileType === 'video' && state.songId ? `${getLocalServerUrl()}/api/video/${state.songId}` : null
+  }
+}
+
+// The player that owns the current song
+function getActivePlayer() {
+  if (currentFileType === 'cdg') return cdgPlayer
+  if (currentFileType === 'lrc') return lrcPlayer
+  if (currentFileType === 'video') return videoPlayer
+  return midiPlayer
+}
+
+// Playback state of the active player
+function getActivePlaybackState() {
+  if (currentFileType === 'cdg') {
+    return toMediaPlaybackState(cdgPlayer.getState())
+  }
+  if (currentFileType === 'lrc') {
+    return toMediaPlaybackState(lrcPlayer.getState())
+  }
+  if (currentFileType === 'video') {
+    return toMediaPlaybackState(videoPlayer.getState())
+  }
+  return { ...midiPlayer.getState(), fileType: 'midi' as const }
+}
+
+// Shared handling for a song reaching its end, regardless of file type
+function handleSongEnded() {
+  // Mark current song as completed and play next
+  const queue = catalogDb.getQueue()
+  const playing = queue.find(q => q.status === 'playing')
+
+  if (playing) {
+    catalogDb.setQueueItemStatus(playing.id, 'completed')
+    catalogDb.addToHistory(playing.song_id, playing.singer_name)
+  }
+
+  // Play next song
+  playNextInQueue()
+
+  const updatedQueue = catalogDb.getQueue()
+  sendToAllWindows('queue:update', updatedQueue)
+  broadcastQueue(updatedQueue) // Send to web clients
+}
+
+// Skip the song that is playing (by request, or because it can't be played) and start the next
+function skipPlayingSong() {
+  getActivePlayer().stop()
+
+  const queue = catalogDb.getQueue()
+  const playing = queue.find(q => q.status === 'playing')
+
+  if (playing) {
+    catalogDb.setQueueItemStatus(playing.id, 'skipped')
+  }
+
+  playNextInQueue()
+  const updatedQueue = catalogDb.getQueue()
+  sendToAllWindows('queue:update', updatedQueue)
+  broadcastQueue(updatedQueue) // Send to web clients
+}
+
+// Reorder a pending song (0 = plays next) and send everyone the new order
+function moveQueueItem(queueId: number, toIndex: number): boolean {
+  if (!catalogDb.moveQueueItem(queueId, toIndex)) return false
+
+  const queue = catalogDb.getQueue()
+  sendToAllWindows('queue:update', queue)
+  broadcastQueue(queue)
+  return true
+}
+
+// Set a queue item's key change; applies live if that item is playing
+function setQueueItemTranspose(queueId: number, semitones: number): boolean {
+  if (!catalogDb.setQueueItemTranspose(queueId, semitones)) return false
+
+  const playing = catalogDb.getQueue().find(q => q.status === 'playing')
+  if (playing?.id === queueId && currentFileType === 'midi') {
+    midiPlayer.setTranspose(semitones)
+  }
+
+  const queue = catalogDb.getQueue()
+  sendToAllWindows('queue:update', queue)
+  broadcastQueue(queue)
+  return true
+}
+
+// Set a queue item's melody guide; applies live if that item is playing
+function setQueueItemMelodyGuide(queueId: number, guide: MelodyGuide) {
+  catalogDb.setQueueItemMelodyGuide(queueId, guide)
+
+  const playing = catalogDb.getQueue().find(q => q.status === 'playing')
+  if (playing?.id === queueId && currentFileType === 'midi') {
+    midiPlayer.setMelodyGuide(guide)
+  }
+
+  const queue = catalogDb.getQueue()
+  sendToAllWindows('queue:update', queue)
+  broadcastQueue(queue)
+}
+
+// Change the key of the song that is playing right now
+function setPlayingTranspose(semitones: number) {
+  const playing = catalogDb.getQueue().find(q => q.status === 'playing')
+  if (playing) {
+    setQueueItemTranspose(playing.id, semitones)
+  } else {
+    midiPlayer.setTranspose(semitones)
+  }
+}
+
 // Setup MIDI player event handlers
 function setupMidiPlayerEvents() {
   midiPlayer.on('lyrics', (lyricsData) => {
     sendToAllWindows('lyrics:update', lyricsData)
+    // Lyrics arrive after the MIDI delay, so check the state now rather than when they were taken
+    const state = midiPlayer.getState()
+    if (state.playing) {
+      broadcastLyrics(lyricsData, { playing: !state.paused, rate: state.playbackRate })
+    }
   })
 
   midiPlayer.on('update', (state) => {
@@ -149,11 +295,26 @@ function setupMidiPlayerEvents() {
 
   midiPlayer.on('pause', (state) => {
     sendPlaybackState(state)
+    broadcastLyrics(midiPlayer.getCurrentLyrics(), { playing: false, rate: state.playbackRate })
+  })
+
+  midiPlayer.on('transpose', (state) => {
+    sendPlaybackState(state)
+  })
+
+  midiPlayer.on('rate', (state) => {
+    sendPlaybackState(state)
+  })
+
+  midiPlayer.on('melody', (state) => {
+    sendPlaybackState(state)
   })
 
   midiPlayer.on('stop', (state) => {
+    if (currentFileType !== 'midi') return
     currentVideoUrl = null // Clear video URL when stopped
     sendPlaybackState(state)
+    broadcastLyrics(null, { playing: false, rate: state.playbackRate })
   })
 
   // Forward note events to renderer for audio synthesis
@@ -169,25 +330,246 @@ function setupMidiPlayerEvents() {
     sendToAllWindows('audio:allNotesOff', null)
   })
 
-  midiPlayer.on('ended', () => {
-    // Mark current song as completed and play next
-    const queue = catalogDb.getQueue()
-    const playing = queue.find(q => q.status === 'playing')
+  midiPlayer.on('ended', handleSongEnded)
+}
 
-    if (playing) {
-      catalogDb.setQueueItemStatus(playing.id, 'completed')
-      catalogDb.addToHistory(playing.song_id, playing.singer_name)
+// Setup CDG player event handlers
+function setupCdgPlayerEvents() {
+  // Frames only matter to the lyrics window, which renders the graphics
+  cdgPlayer.on('frame', (frame) => {
+    if (lyricsWindow) {
+      lyricsWindow.webContents.send('cdg:frame', frame)
     }
+  })
 
-    // Play next song
-    playNextInQueue()
+  cdgPlayer.on('update', (state: CdgPlayerState) => {
+    sendPlaybackState(toMediaPlaybackState(state))
+  })
+
+  cdgPlayer.on('play', (state: CdgPlayerState) => {
+    sendPlaybackState(toMediaPlaybackState(state))
+  })
+
+  cdgPlayer.on('pause', (state: CdgPlayerState) => {
+    sendPlaybackState(toMediaPlaybackState(state))
+  })
+
+  cdgPlayer.on('stop', (state: CdgPlayerState) => {
+    if (currentFileType !== 'cdg') return
+    currentVideoUrl = null // Clear video URL when stopped
+    sendPlaybackState(toMediaPlaybackState(state))
+  })
+
+  // Keep the audio element in the lyrics window at the same position
+  cdgPlayer.on('seek', ({ timeMs, state }: { timeMs: number; state: CdgPlayerState }) => {
+    if (lyricsWindow) {
+      lyricsWindow.webContents.send('cdg:seek', timeMs)
+    }
+    sendPlaybackState(toMediaPlaybackState(state))
+  })
+
+  cdgPlayer.on('ended', handleSongEnded)
+}
+
+// Setup LRC player event handlers
+function setupLrcPlayerEvents() {
+  lrcPlayer.on('lyrics', (lyricsData) => {
+    sendToAllWindows('lyrics:update', lyricsData)
+    const state = lrcPlayer.getState()
+    if (state.playing) {
+      broadcastLyrics(lyricsData, { playing: !state.paused, rate: 1 })
+    }
+  })
+
+  lrcPlayer.on('update', (state: LrcPlayerState) => {
+    sendPlaybackState(toMediaPlaybackState(state))
+  })
+
+  lrcPlayer.on('play', (state: LrcPlayerState) => {
+    sendPlaybackState(toMediaPlaybackState(state))
+  })
+
+  lrcPlayer.on('pause', (state: LrcPlayerState) => {
+    sendPlaybackState(toMediaPlaybackState(state))
+  })
+
+  lrcPlayer.on('stop', (state: LrcPlayerState) => {
+    if (currentFileType !== 'lrc') return
+    currentVideoUrl = null // Clear video URL when stopped
+    sendPlaybackState(toMediaPlaybackState(state))
+    broadcastLyrics(null, { playing: false, rate: 1 })
+  })
+
+  // Keep the audio element in the lyrics window at the same position
+  lrcPlayer.on('seek', ({ timeMs, state }: { timeMs: number; state: LrcPlayerState }) => {
+    if (lyricsWindow) {
+      lyricsWindow.webContents.send('lrc:seek', timeMs)
+    }
+    sendPlaybackState(toMediaPlaybackState(state))
+  })
+
+  lrcPlayer.on('ended', handleSongEnded)
+}
+
+// Setup video player event handlers
+function setupVideoPlayerEvents() {
+  videoPlayer.on('update', (state: VideoPlayerState) => {
+    sendPlaybackState(toMediaPlaybackState(state))
+  })
+
+  videoPlayer.on('play', (state: VideoPlayerState) => {
+    sendPlaybackState(toMediaPlaybackState(state))
+  })
+
+  videoPlayer.on('pause', (state: VideoPlayerState) => {
+    sendPlaybackState(toMediaPlaybackState(state))
+  })
+
+  videoPlayer.on('stop', (state: VideoPlayerState) => {
+    if (currentFileType !== 'video') return
+    currentVideoUrl = null // Clear video URL when stopped
+    sendPlaybackState(toMediaPlaybackState(state))
+  })
+
+  // Keep the video element in the lyrics window at the same position
+  videoPlayer.on('seek', ({ timeMs, state }: { timeMs: number; state: VideoPlayerState }) => {
+    if (lyricsWindow) {
+      lyricsWindow.webContents.send('video:seek', timeMs)
+    }
+    sendPlaybackState(toMediaPlaybackState(state))
+  })
+
+  videoPlayer.on('ended', handleSongEnded)
+}
+
+// Watch every configured catalog folder (catalogPath plus catalogRoots), or none if watching is off
+function updateCatalogWatcher() {
+  if (!settingsStore.get('watchCatalog')) {
+    catalogWatcher.stop()
+    return
+  }
+
+  const extraRoots = settingsStore.get('catalogRoots')
+  catalogWatcher.watch([
+    settingsStore.get('catalogPath'),
+    ...(Array.isArray(extraRoots) ? extraRoots : [])
+  ])
+}
+
+// Setup catalog watcher event handlers
+function setupCatalogWatcherEvents() {
+  catalogWatcher.on('progress', (progress: ScanProgress) => {
+    if (mainWindow) {
+      mainWindow.webContents.send('catalog:scanProgress', progress)
+    }
+  })
+
+  catalogWatcher.on('complete', (_rootPath: string, result: ScanResult) => {
+    sendToAllWindows('catalog:scanComplete', result)
 
-    const updatedQueue = catalogDb.getQueue()
-    sendToAllWindows('queue:update', updatedQueue)
-    broadcastQueue(updatedQueue) // Send to web clients
+    // Removed songs take their queue entries with them
+    if (result.removed > 0) {
+      const queue = catalogDb.getQueue()
+      sendToAllWindows('queue:update', queue)
+      broadcastQueue(queue)
+    }
+  })
+
+  settingsStore.on('change', ({ key }: { key: keyof Settings }) => {
+    if (key === 'catalogPath' || key === 'catalogRoots' || key === 'watchCatalog') {
+      updateCatalogWatcher()
+    }
   })
 }
 
+// Load a KAR/MIDI song into the MIDI player and start it
+function playMidiSong(song: Song, item: QueueItem) {
+  const parsedSong = parseKarFileComplete(song.file_path, song.lyrics_charset)
+
+  // Connect MIDI output to player
+  const midiStatus = getMidiStatus()
+  console.log('MIDI Status:', midiStatus)
+
+  midiPlayer.setMidiOutput({
+    send: (message: number[]) => {
+      // Use universal send - routes to WebSocket if connected, otherwise MIDI
+      sendMidiUniversal(message)
+    },
+    close: () => {}
+  })
+
+  console.log('MIDI output connected to player:', midiPlayer.hasMidiOutput())
+
+  // Stop a CDG, LRC or video song that may still own the display
+  cdgPlayer.stop()
+  lrcPlayer.stop()
+  videoPlayer.stop()
+  currentFileType = 'midi'
+
+  // Load and play
+  catalogDb.setQueueItemStatus(item.id, 'playing')
+  midiPlayer.loadSong(parsedSong, item.singer_name)
+  midiPlayer.setChannelRouting(catalogDb.getChannelRouting(song.id))
+  midiPlayer.setMelodyGuide({ mode: item.melody_mode ?? 'default', volume: item.melody_volume ?? 100 })
+  midiPlayer.setTranspose(item.transpose ?? 0)
+  midiPlayer.play()
+}
+
+// Load a CDG+audio song into the CDG player and start it
+// The lyrics window plays the audio and keeps the player in sync
+function playCdgSong(song: Song, item: QueueItem) {
+  if (!song.audio_path) {
+    throw new Error(`CDG song has no audio file: ${song.file_path}`)
+  }
+
+  // Stop a MIDI, LRC or video song that may still be playing
+  midiPlayer.stop()
+  lrcPlayer.stop()
+  videoPlayer.stop()
+  currentFileType = 'cdg'
+  currentArtist = song.artist
+
+  cdgPlayer.loadSong(song.file_path, song.audio_path, song.title, item.singer_name, song.id)
+  catalogDb.setQueueItemStatus(item.id, 'playing')
+  cdgPlayer.play()
+}
+
+// Load an LRC song and its audio into the LRC player and start it
+// Like CDG, the lyrics window plays the audio and keeps the player in sync
+function playLrcSong(song: Song, item: QueueItem) {
+  if (!song.audio_path) {
+    throw new Error(`LRC song has no audio file: ${song.file_path}`)
+  }
+
+  const lrc = parseLrcFile(song.file_path, song.lyrics_charset)
+
+  // Stop a MIDI, CDG or video song that may still be playing
+  midiPlayer.stop()
+  cdgPlayer.stop()
+  videoPlayer.stop()
+  currentFileType = 'lrc'
+  currentArtist = song.artist
+
+  lrcPlayer.loadSong(lrc, song.audio_path, song.title, item.singer_name, song.id)
+  catalogDb.setQueueItemStatus(item.id, 'playing')
+  lrcPlayer.play()
+}
+
+// Load a karaoke video into the video player and start it
+// The lyrics window shows the video full screen and keeps the player in sync
+function playVideoSong(song: Song, item: QueueItem) {
+  // Stop a MIDI, CDG or LRC song that may still be playing
+  midiPlayer.stop()
+  cdgPlayer.stop()
+  lrcPlayer.stop()
+  currentFileType = 'video'
+  currentArtist = song.artist
+
+  videoPlayer.loadSong(song.file_path, song.title, item.singer_name, song.id)
+  catalogDb.setQueueItemStatus(item.id, 'playing')
+  videoPlayer.play()
+}
+
 // Play the next song in queue
 function playNextInQueue() {
   const next = catalogDb.getNextInQueue()
@@ -195,7 +577,7 @@ function playNextInQueue() {
   if (!next) {
     console.log('Queue is empty')
     currentVideoUrl = null
-    sendPlaybackState(midiPlayer.getState())
+    sendPlaybackState(getActivePlaybackState())
     return
   }
 
@@ -208,26 +590,15 @@ function playNextInQueue() {
   }
 
   try {
-    const parsedSong = parseKarFileComplete(song.file_path)
-
-    // Connect MIDI output to player
-    const midiStatus = getMidiStatus()
-    console.log('MIDI Status:', midiStatus)
-
-    midiPlayer.setMidiOutput({
-      send: (message: number[]) => {
-        // Use universal send - routes to WebSocket if connected, otherwise MIDI
-        sendMidiUniversal(message)
-      },
-      close: () => {}
-    })
-
-    console.log('MIDI output connected to player:', midiPlayer.hasMidiOutput())
-
-    // Load and play
-    catalogDb.setQueueItemStatus(next.id, 'playing')
-    midiPlayer.loadSong(parsedSong, next.singer_name)
-    midiPlayer.play()
+    if (song.file_type === 'cdg') {
+      playCdgSong(song, next)
+    } else if (song.file_type === 'lrc') {
+      playLrcSong(song, next)
+    } else if (song.file_type === 'video') {
+      playVideoSong(song, next)
+    } else {
+      playMidiSong(song, next)
+    }
 
     catalogDb.updateLastPlayed(song.id)
 
@@ -237,7 +608,7 @@ function playNextInQueue() {
 
     // Set current video URL for YouTube background
     currentVideoUrl = song.video_url || null
-    sendPlaybackState(midiPlayer.getState())
+    sendPlaybackState(getActivePlaybackState())
   } catch (error) {
     console.error('Error playing song:', error)
     catalogDb.setQueueItemStatus(next.id, 'skipped')
@@ -284,12 +655,8 @@ function registerIpcHandlers() {
     console.log('Path validated, starting scan...')
 
     try {
-      const result = await scanCatalogDirectory(catalogPath, (progress) => {
-        console.log(`Scan progress: ${progress.processed}/${progress.total}`)
-        if (mainWindow) {
-          mainWindow.webContents.send('catalog:scanProgress', progress)
-        }
-      })
+      // Progress is pushed to the window by the watcher's 'progress' event
+      const result = await catalogWatcher.scan(catalogPath)
 
       console.log('=== SCAN COMPLETE ===')
       console.log('Result:', result)
@@ -326,14 +693,17 @@ function registerIpcHandlers() {
   })
 
   // Queue operations
-  ipcMain.handle('queue:add', (_event, songId: number, singerName: string) => {
-    const queueId = catalogDb.addToQueue(songId, singerName)
+  ipcMain.handle('queue:add', (_event, songId: number, singerName: string, transpose = 0, melodyGuide?: unknown) => {
+    const queueId = catalogDb.addToQueue(songId, singerName, undefined, {
+      transpose: clampTranspose(transpose),
+      melodyGuide: sanitizeMelodyGuide(melodyGuide)
+    })
     const queue = catalogDb.getQueue()
     sendToAllWindows('queue:update', queue)
     broadcastQueue(queue) // Send to web clients
 
     // If nothing is playing, start playing
-    const state = midiPlayer.getState()
+    const state = getActivePlaybackState()
     if (!state.playing) {
       playNextInQueue()
     }
@@ -348,28 +718,24 @@ function registerIpcHandlers() {
     broadcastQueue(queue) // Send to web clients
   })
 
+  ipcMain.handle('queue:move', (_event, queueId: number, toIndex: number) => {
+    return moveQueueItem(queueId, toIndex)
+  })
+
   ipcMain.handle('queue:get', () => {
     return catalogDb.getQueue()
   })
 
-  ipcMain.handle('queue:skip', () => {
-    midiPlayer.stop()
-
-    const queue = catalogDb.getQueue()
-    const playing = queue.find(q => q.status === 'playing')
-
-    if (playing) {
-      catalogDb.setQueueItemStatus(playing.id, 'skipped')
-    }
+  ipcMain.handle('queue:setMelodyGuide', (_event, queueId: number, guide: unknown) => {
+    setQueueItemMelodyGuide(queueId, sanitizeMelodyGuide(guide))
+  })
 
-    playNextInQueue()
-    const updatedQueue = catalogDb.getQueue()
-    sendToAllWindows('queue:update', updatedQueue)
-    broadcastQueue(updatedQueue) // Send to web clients
+  ipcMain.handle('queue:skip', () => {
+    skipPlayingSong()
   })
 
   ipcMain.handle('queue:clear', () => {
-    midiPlayer.stop()
+    getActivePlayer().stop()
     catalogDb.clearQueue()
     const queue = catalogDb.getQueue()
     sendToAllWindows('queue:update', queue)
@@ -378,33 +744,90 @@ function registerIpcHandlers() {
 
   // Playback control
   ipcMain.handle('playback:play', () => {
-    const state = midiPlayer.getState()
+    const state = getActivePlaybackState()
     if (state.paused) {
-      midiPlayer.play()
+      getActivePlayer().play()
     } else if (!state.playing) {
       playNextInQueue()
     }
-    return { ...midiPlayer.getState(), videoUrl: currentVideoUrl }
+    return { ...getActivePlaybackState(), videoUrl: currentVideoUrl }
   })
 
   ipcMain.handle('playback:pause', () => {
-    midiPlayer.pause()
-    return { ...midiPlayer.getState(), videoUrl: currentVideoUrl }
+    getActivePlayer().pause()
+    return { ...getActivePlaybackState(), videoUrl: currentVideoUrl }
   })
 
   ipcMain.handle('playback:stop', () => {
-    midiPlayer.stop()
+    getActivePlayer().stop()
     currentVideoUrl = null
-    return { ...midiPlayer.getState(), videoUrl: currentVideoUrl }
+    return { ...getActivePlaybackState(), videoUrl: currentVideoUrl }
   })
 
   ipcMain.handle('playback:state', () => {
-    return { ...midiPlayer.getState(), videoUrl: currentVideoUrl }
+    return { ...getActivePlaybackState(), videoUrl: currentVideoUrl }
   })
 
   ipcMain.handle('playback:seek', (_event, timeMs: number) => {
-    midiPlayer.seek(timeMs)
-    return { ...midiPlayer.getState(), videoUrl: currentVideoUrl }
+    getActivePlayer().seek(timeMs)
+    return { ...getActivePlaybackState(), videoUrl: currentVideoUrl }
+  })
+
+  ipcMain.handle('playback:setTranspose', (_event, semitones: number) => {
+    setPlayingTranspose(clampTranspose(semitones))
+    return { ...getActivePlaybackState(), videoUrl: currentVideoUrl }
+  })
+
+  ipcMain.handle('playback:setRate', (_event, rate: number) => {
+    midiPlayer.setPlaybackRate(clampPlaybackRate(rate))
+    return { ...getActivePlaybackState(), videoUrl: currentVideoUrl }
+  })
+
+  // CDG sync - the lyrics window's audio element is the clock for CDG songs
+  ipcMain.handle('cdg:syncTime', (_event, audioTimeMs: number) => {
+    if (currentFileType === 'cdg') {
+      cdgPlayer.syncToAudioTime(audioTimeMs)
+    }
+  })
+
+  ipcMain.handle('cdg:audioEnded', () => {
+    if (currentFileType === 'cdg') {
+      cdgPlayer.end()
+    }
+  })
+
+  // LRC sync - the audio element also reports the duration, which LRC files rarely give
+  ipcMain.handle('lrc:syncTime', (_event, audioTimeMs: number, durationMs?: number) => {
+    if (currentFileType === 'lrc') {
+      lrcPlayer.syncToAudioTime(audioTimeMs, durationMs)
+    }
+  })
+
+  ipcMain.handle('lrc:audioEnded', () => {
+    if (currentFileType === 'lrc') {
+      lrcPlayer.end()
+    }
+  })
+
+  // Video sync - the lyrics window's video element is the clock for video songs
+  ipcMain.handle('video:syncTime', (_event, videoTimeMs: number, durationMs?: number) => {
+    if (currentFileType === 'video') {
+      videoPlayer.syncToVideoTime(videoTimeMs, durationMs)
+    }
+  })
+
+  ipcMain.handle('video:ended', () => {
+    if (currentFileType === 'video') {
+      videoPlayer.end()
+    }
+  })
+
+  // A video Chromium can't load or decode (e.g. an unsupported codec in MKV) is skipped
+  ipcMain.handle('video:error', (_event, message: string) => {
+    if (currentFileType === 'video' && videoPlayer.getState().playing) {
+      console.error(`Video failed to play (${videoPlayer.getState().videoPath}): ${message}`)
+      skipPlayingSong()
+    }
   })
 
   // MIDI operations
@@ -469,6 +892,26 @@ function registerIpcHandlers() {
     return undefined
   })
 
+  // Admin portal PIN (only the hash is stored)
+  ipcMain.handle('admin:hasPin', () => {
+    return settingsStore.get('adminPinHash') !== ''
+  })
+
+  ipcMain.handle('admin:setPin', (_event, pin: string) => {
+    if (typeof pin !== 'string' || pin.length < 4 || pin.length > 64) {
+      throw new Error('PIN must be 4 to 64 characters')
+    }
+    settingsStore.set('adminPinHash', hashPin(pin))
+    revokeAdminSessions() // Anyone logged in with the old PIN has to log in again
+    return true
+  })
+
+  ipcMain.handle('admin:clearPin', () => {
+    settingsStore.set('adminPinHash', '')
+    revokeAdminSessions()
+    return true
+  })
+
   // Soundfont management
   ipcMain.handle('soundfont:list', () => {
     return listSoundfonts()
@@ -497,6 +940,85 @@ function registerIpcHandlers() {
     return catalogDb.getSongVideoUrl(songId)
   })
 
+  // Channel routing - default route per channel plus any saved override
+  ipcMain.handle('catalog:getChannelRouting', (_event, songId: number) => {
+    const song = catalogDb.getSong(songId)
+    if (!song || song.file_type !== 'midi') return []
+
+    const parsed = parseKarFileComplete(song.file_path)
+    const overrides = catalogDb.getChannelRouting(songId)
+    const channels = new Map<number, { channel: number; instrument: string; noteCount: number }>()
+
+    for (const track of parsed.tracks) {
+      const existing = channels.get(track.channel)
+      if (existing) {
+        existing.noteCount += track.notes.length
+      } else {
+        channels.set(track.channel, {
+          channel: track.channel,
+          instrument: track.channel === 9 ? 'Drums' : track.instrument || track.name,
+          noteCount: track.notes.length
+        })
+      }
+    }
+
+    return Array.from(channels.values())
+      .sort((a, b) => a.channel - b.channel)
+      .map(info => ({
+        ...info,
+        defaultRoute: getDefaultRoute(info.channel, parsed.pianoChannels),
+        override: overrides[info.channel] ?? null
+      }))
+  })
+
+  ipcMain.handle('catalog:setChannelRouting', (_event, songId: number, routing: unknown) => {
+    const overrides = sanitizeRouting(routing)
+    catalogDb.setChannelRouting(songId, overrides)
+
+    // Apply straight away if this song is on the piano right now
+    const playing = catalogDb.getQueue().find(q => q.status === 'playing')
+    if (currentFileType === 'midi' && playing?.song_id === songId) {
+      midiPlayer.setChannelRouting(overrides)
+    }
+    return overrides
+  })
+
+  // KAR header lines (@T, @L, @I...) for the song details view
+  ipcMain.handle('catalog:getKarHeaders', (_event, songId: number) => {
+    const song = catalogDb.getSong(songId)
+    if (!song || song.file_type !== 'midi') return []
+
+    const headers = catalogDb.getKarHeaders(songId)
+    // Songs indexed before headers were kept have none stored until their file changes
+    return headers.length > 0 ? headers : getSongMetadata(song.file_path, song.lyrics_charset).karHeaders
+  })
+
+  // Lyrics encoding - detected charset, the saved override, and a sample of the lyrics in each
+  ipcMain.handle('catalog:getLyricsCharset', (_event, songId: number) => {
+    const song = catalogDb.getSong(songId)
+    if (!song || song.file_type !== 'midi') return null
+
+    const { detected, samples } = getLyricsCharsetSamples(song.file_path)
+    return {
+      detected,
+      override: song.lyrics_charset,
+      options: Object.entries(LYRIC_CHARSET_LABELS).map(([charset, label]) => ({
+        charset,
+        label,
+        sample: samples[charset as keyof typeof samples]
+      }))
+    }
+  })
+
+  // Applies the next time the song is loaded
+  ipcMain.handle('catalog:setLyricsCharset', (_event, songId: number, charset: unknown) => {
+    const song = catalogDb.getSong(songId)
+    if (!song || song.file_type !== 'midi') return false
+
+    applyLyricsCharset(song, isLyricCharset(charset) ? charset : null)
+    return true
+  })
+
   // File dialogs
   ipcMain.handle('dialog:selectVideo', async () => {
     const result = await dialog.showOpenDialog({
@@ -520,12 +1042,33 @@ app.whenReady().then(async () => {
   // Reset any stale queue items from previous session
   catalogDb.resetStaleQueue()
 
+  // Queue order follows the queueMode setting; a change reorders everyone's view
+  catalogDb.setQueueMode(settingsStore.get('queueMode'))
+  settingsStore.on('change', ({ key, value }: { key: keyof Settings; value: unknown }) => {
+    if (key === 'queueMode') {
+      catalogDb.setQueueMode(value as Settings['queueMode'])
+      catalogDb.resequenceQueue()
+      const queue = catalogDb.getQueue()
+      sendToAllWindows('queue:update', queue)
+      broadcastQueue(queue)
+    }
+  })
+
   // Register IPC handlers
   registerIpcHandlers()
 
   // Setup MIDI player events
   setupMidiPlayerEvents()
 
+  // Setup CDG player events
+  setupCdgPlayerEvents()
+  setupLrcPlayerEvents()
+  setupVideoPlayerEvents()
+
+  // Keep the library in sync with the catalog folders
+  setupCatalogWatcherEvents()
+  updateCatalogWatcher()
+
   // Auto-connect to Yamaha MIDI
   const connected = await autoConnectDisklavier()
   if (connected) {
@@ -543,7 +1086,7 @@ app.whenReady().then(async () => {
       sendToAllWindows('queue:update', queue)
 
       // If nothing is playing, start playing
-      const state = midiPlayer.getState()
+      const state = getActivePlaybackState()
       if (!state.playing) {
         playNextInQueue()
       }
@@ -558,44 +1101,47 @@ app.whenReady().then(async () => {
     // Register playback control callbacks for admin portal
     onPlaybackControl({
       play: () => {
-        const state = midiPlayer.getState()
+        const state = getActivePlaybackState()
         if (state.paused) {
-          midiPlayer.play()
+          getActivePlayer().play()
         } else if (!state.playing) {
           playNextInQueue()
         }
-        sendPlaybackState(midiPlayer.getState())
+        sendPlaybackState(getActivePlaybackState())
       },
       pause: () => {
-        midiPlayer.pause()
-        sendPlaybackState(midiPlayer.getState())
+        getActivePlayer().pause()
+        sendPlaybackState(getActivePlaybackState())
       },
       stop: () => {
-        midiPlayer.stop()
+        getActivePlayer().stop()
         currentVideoUrl = null
-        sendPlaybackState(midiPlayer.getState())
+        sendPlaybackState(getActivePlaybackState())
       },
       skip: () => {
-        midiPlayer.stop()
-        const queue = catalogDb.getQueue()
-        const playing = queue.find(q => q.status === 'playing')
-        if (playing) {
-          catalogDb.setQueueItemStatus(playing.id, 'skipped')
-        }
-        playNextInQueue()
-        const updatedQueue = catalogDb.getQueue()
-        sendToAllWindows('queue:update', updatedQueue)
-        broadcastQueue(updatedQueue)
+        skipPlayingSong()
       },
       seek: (timeMs: number) => {
-        midiPlayer.seek(timeMs)
-        sendPlaybackState(midiPlayer.getState())
+        getActivePlayer().seek(timeMs)
+        sendPlaybackState(getActivePlaybackState())
       },
       removeFromQueue: (queueId: number) => {
         catalogDb.removeFromQueue(queueId)
         const queue = catalogDb.getQueue()
         sendToAllWindows('queue:update', queue)
         broadcastQueue(queue)
+      },
+      setTranspose: (semitones: number) => {
+        setPlayingTranspose(semitones)
+      },
+      setRate: (rate: number) => {
+        midiPlayer.setPlaybackRate(rate)
+      },
+      setQueueItemTranspose: (queueId: number, semitones: number) => {
+        return setQueueItemTranspose(queueId, semitones)
+      },
+      moveQueueItem: (queueId: number, toIndex: number) => {
+        return moveQueueItem(queueId, toIndex)
       }
     })
   } catch (error) {
@@ -614,7 +1160,11 @@ app.whenReady().then(async () => {
 
 app.on('window-all-closed', () => {
   // Cleanup
+  catalogWatcher.stop()
   midiPlayer.stop()
+  cdgPlayer.stop()
+  lrcPlayer.stop()
+  videoPlayer.stop()
   midiOutputManager.disconnect()
   stopWebServer()
   catalogDb.close()
@@ -625,7 +1175,11 @@ app.on('window-all-closed', () => {
 })
 
 app.on('before-quit', () => {
+  catalogWatcher.stop()
   midiPlayer.stop()
+  cdgPlayer.stop()
+  lrcPlayer.stop()
+  videoPlayer.stop()
   midiOutputManager.disconnect()
   stopWebServer()
   catalogDb.close()
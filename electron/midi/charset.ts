@@ -0,0 +1,157 @@
+// MIDI text events carry raw bytes with no declared encoding. Older KAR files use whatever
+// code page the author's system had; newer ones are often UTF-8.
+
+export type LyricCharset = 'utf-8' | 'windows-1252' | 'windows-1251' | 'shift_jis' | 'euc-kr'
+
+export const LYRIC_CHARSET_LABELS: Record<LyricCharset, string> = {
+  'utf-8': 'Unicode (UTF-8)',
+  'windows-1252': 'Western (Windows-1252 / Latin-1)',
+  'windows-1251': 'Cyrillic (Windows-1251)',
+  'shift_jis': 'Japanese (Shift-JIS)',
+  'euc-kr': 'Korean (EUC-KR)'
+}
+
+// Share of a double-byte guess's characters that must be common kana/Hangul to accept it
+const CJK_MIN_SCORE = 0.3
+// Stray bytes a double-byte guess may hit (e.g. a corrupt event) before it's ruled out
+const CJK_MAX_INVALID_RATIO = 0.02
+
+const decoders: Map<LyricCharset, TextDecoder> = new Map()
+
+export function isLyricCharset(value: unknown): value is LyricCharset {
+  return typeof value === 'string' && value in LYRIC_CHARSET_LABELS
+}
+
+export function decodeText(bytes: Uint8Array, charset: LyricCharset): string {
+  let decoder = decoders.get(charset)
+  if (!decoder) {
+    decoder = new TextDecoder(charset)
+    decoders.set(charset, decoder)
+  }
+  return decoder.decode(bytes)
+}
+
+function hasUtf8Bom(bytes: Uint8Array): boolean {
+  return bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf
+}
+
+function isValidUtf8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * How Japanese the bytes look as Shift-JIS: the share of characters that are kana or
+ * Japanese punctuation, which make up much of any Japanese lyric
+ */
+function scoreShiftJis(chunks: Uint8Array[]): number {
+  let chars = 0
+  let common = 0
+  let invalid = 0
+
+  for (const bytes of chunks) {
+    for (let i = 0; i < bytes.length; i++) {
+      const lead = bytes[i]
+      if (lead < 0x80) continue
+
+      if (lead >= 0xa1 && lead <= 0xdf) {
+        chars++ // Half-width katakana
+      } else if ((lead >= 0x81 && lead <= 0x9f) || (lead >= 0xe0 && lead <= 0xfc)) {
+        const trail = bytes[i + 1]
+        if (trail === undefined || trail < 0x40 || trail === 0x7f || trail > 0xfc) {
+          invalid++
+          continue
+        }
+        chars++
+        i++
+        const isHiragana = lead === 0x82 && trail >= 0x9f && trail <= 0xf1
+        const isKatakana = lead === 0x83 && trail >= 0x40 && trail <= 0x96
+        const isPunctuation = lead === 0x81 && trail >= 0x40 && trail <= 0x5b
+        if (isHiragana || isKatakana || isPunctuation) common++
+      } else {
+        invalid++
+      }
+    }
+  }
+
+  if (chars === 0 || invalid / chars > CJK_MAX_INVALID_RATIO) return 0
+  return common / chars
+}
+
+/**
+ * How Korean the bytes look as EUC-KR: the share of characters among the
+ * 2,350 common Hangul syllables (KS X 1001 rows 0xB0-0xC8)
+ */
+function scoreEucKr(chunks: Uint8Array[]): number {
+  let chars = 0
+  let hangul = 0
+  let invalid = 0
+
+  for (const bytes of chunks) {
+    for (let i = 0; i < bytes.length; i++) {
+      const lead = bytes[i]
+      if (lead < 0x80) continue
+
+      const trail = bytes[i + 1]
+      if (lead >= 0xa1 && lead <= 0xfe && trail >= 0xa1 && trail <= 0xfe) {
+        chars++
+        i++
+        if (lead >= 0xb0 && lead <= 0xc8) hangul++
+      } else if (lead >= 0x81 && lead <= 0xfe && trail !== undefined &&
+          ((trail >= 0x41 && trail <= 0x5a) || (trail >= 0x61 && trail <= 0x7a) || (trail >= 0x81 && trail <= 0xfe))) {
+        chars++ // Extended (CP949) syllables, valid but rare
+        i++
+      } else {
+        invalid++
+      }
+    }
+  }
+
+  if (chars === 0 || invalid / chars > CJK_MAX_INVALID_RATIO) return 0
+  return hangul / chars
+}
+
+/**
+ * Whether single-byte text reads as Cyrillic: in Windows-1251 nearly every letter of
+ * Russian text is a high byte, while accented letters are a small minority in Latin text
+ */
+function looksCyrillic(chunks: Uint8Array[]): boolean {
+  let high = 0
+  let ascii = 0
+
+  for (const bytes of chunks) {
+    for (const byte of bytes) {
+      if (byte >= 0xc0 || byte === 0xa8 || byte === 0xb8) {
+        high++ // А-я, Ё, ё
+      } else if ((byte >= 0x41 && byte <= 0x5a) || (byte >= 0x61 && byte <= 0x7a)) {
+        ascii++
+      }
+    }
+  }
+
+  return high > ascii
+}
+
+/**
+ * Guess the charset of a file's text events: a UTF-8 byte order mark, then valid UTF-8,
+ * then whichever legacy code page the bytes fit best. Plain ASCII reads the same in all of them.
+ */
+export function detectCharset(chunks: Uint8Array[]): LyricCharset {
+  if (chunks.some(hasUtf8Bom)) return 'utf-8'
+
+  const withHighBytes = chunks.filter(bytes => bytes.some(byte => byte >= 0x80))
+  if (withHighBytes.length === 0) return 'windows-1252'
+  if (withHighBytes.every(isValidUtf8)) return 'utf-8'
+
+  const japanese = scoreShiftJis(withHighBytes)
+  const korean = scoreEucKr(withHighBytes)
+  if (Math.max(japanese, korean) >= CJK_MIN_SCORE) {
+    return japanese >= korean ? 'shift_jis' : 'euc-kr'
+  }
+
+  return looksCyrillic(withHighBytes) ? 'windows-1251' : 'windows-1252'
+}
@@ -1,6 +1,7 @@
 import { Midi } from '@tonejs/midi'
 import * as fs from 'fs'
 import * as path from 'path'
+import { LYRIC_CHARSET_LABELS, decodeText, detectCharset, type LyricCharset } from './charset.js'
 
 export interface LyricEvent {
   text: string
@@ -17,10 +18,19 @@ export interface NoteEvent {
   channel: number
 }
 
+export interface ControlEvent {
+  type: 'controlChange' | 'pitchBend' | 'programChange'
+  time: number // in seconds
+  channel: number
+  controller?: number // CC number, for control changes only
+  value: number // Raw MIDI value: 0-127, or 0-16383 for pitch bend (8192 = center)
+}
+
 export interface TrackInfo {
   name: string
   channel: number
   notes: NoteEvent[]
+  controlEvents: ControlEvent[] // CCs, pitch bends and program changes, sorted by time
   instrument?: string
   instrumentProgram: number  // GM program number (0-127)
   isPiano: boolean           // true if program 0-7 (piano family)
@@ -33,53 +43,95 @@ export interface ParsedSong {
   bpm: number
   timeSignature: { numerator: number; denominator: number }
   lyrics: LyricEvent[]
+  lyricsCharset: LyricCharset // Encoding the lyrics were decoded with
   tracks: TrackInfo[]
   hasLyrics: boolean
   pianoChannels: number[]    // channels with piano instruments
+  melodyChannel: number | null // channel carrying the vocal line, if one lines up with the lyrics
 }
 
 /**
  * Parse a KAR or MIDI file and extract lyrics and note data
+ * The lyrics charset is detected unless one is given (a per-song override)
  */
-export function parseKarFile(filePath: string): ParsedSong {
+export function parseKarFile(filePath: string, charset?: LyricCharset | null): ParsedSong {
   // Use the complete parser which handles piano detection
-  return parseKarFileComplete(filePath)
+  return parseKarFileComplete(filePath, charset)
 }
 
-/**
- * Extract lyrics from a MIDI track
- * KAR files typically use text events or lyric meta events
- */
-function extractLyricsFromTrack(track: Midi['tracks'][0], midi: Midi): LyricEvent[] {
-  const lyrics: LyricEvent[] = []
+interface TempoEvent {
+  ticks: number
+  microsecondsPerBeat: number
+}
+
+interface TextEvent {
+  bytes: Buffer // Undecoded text
+  ticks: number
+  type: number // 0x01 text or 0x05 lyric meta event
+  track: number
+}
 
-  // Access the raw MIDI data to get text/lyric events
-  // @tonejs/midi may not expose all meta events directly, so we need to check
-  // the track's internal data structure
+interface ProgramChangeEvent {
+  ticks: number
+  channel: number
+  program: number
+}
 
-  // The track object from @tonejs/midi has limited meta event access
-  // We'll use a workaround by checking if there's a lyrics property
-  // or by parsing the raw track data
+// Controllers that shape the performance: volume, expression and the pedals
+const CAPTURED_CONTROLLERS = new Set([7, 11, 64, 66, 67])
 
-  // For now, let's try accessing any text that might be in the track name
-  // and look for special markers
+// A lyric event stream counts as the lyrics unless it has under this share of the events
+// of the busiest text event stream (then it's likely stray markers and the text is the lyrics)
+const LYRIC_STREAM_MIN_RATIO = 0.5
 
-  // Many KAR files have lyrics embedded - let's check the controlChanges
-  // and other events for text data
+/**
+ * Convert ticks to seconds using every tempo change up to that tick
+ * Expects tempos sorted by ticks
+ */
+function ticksToSeconds(ticks: number, tempos: TempoEvent[], division: number): number {
+  let seconds = 0
+  let lastTicks = 0
+  let microsecondsPerBeat = 500000 // MIDI default: 120 BPM until the first tempo event
+
+  for (const tempo of tempos) {
+    if (tempo.ticks >= ticks) break
+    seconds += ((tempo.ticks - lastTicks) / division) * (microsecondsPerBeat / 1000000)
+    lastTicks = tempo.ticks
+    microsecondsPerBeat = tempo.microsecondsPerBeat
+  }
 
-  // Actually, @tonejs/midi v2.x does support reading text events
-  // They should be available in track.meta or similar
+  return seconds + ((ticks - lastTicks) / division) * (microsecondsPerBeat / 1000000)
+}
 
-  // Let's try a different approach - read the raw buffer and parse text events
-  return lyrics
+// @tonejs/midi reads meta event strings (e.g. track names) a byte per character;
+// re-decode them with the charset of the file's lyrics
+function redecodeMidiString(text: string, charset: LyricCharset): string {
+  return decodeText(Buffer.from(text, 'latin1'), charset)
 }
 
 /**
  * Parse raw MIDI buffer to extract lyrics (text events)
  * This is needed because @tonejs/midi doesn't expose all meta events
  */
-export function extractLyricsFromBuffer(buffer: Buffer): LyricEvent[] {
+export function extractLyricsFromBuffer(buffer: Buffer, charset?: LyricCharset | null): LyricEvent[] {
+  return scanMidiBuffer(buffer, charset).lyrics
+}
+
+/**
+ * Walk the raw MIDI buffer for the events @tonejs/midi drops:
+ * text/lyric meta events and every program change (it only keeps the first per track)
+ */
+function scanMidiBuffer(buffer: Buffer, charset?: LyricCharset | null): {
+  lyrics: LyricEvent[]
+  charset: LyricCharset
+  programChanges: ProgramChangeEvent[]
+} {
   const lyrics: LyricEvent[] = []
+  const textEvents: TextEvent[] = []
+  const trackNames: (string | undefined)[] = []
+  let track = -1
+  const tempos: TempoEvent[] = []
+  const programChanges: ProgramChangeEvent[] = []
 
   // MIDI file structure:
   // Header chunk: "MThd" + length + format + ntrks + division
@@ -89,7 +141,7 @@ export function extractLyricsFromBuffer(buffer: Buffer): LyricEvent[] {
 
   // Skip header chunk
   if (buffer.toString('ascii', 0, 4) !== 'MThd') {
-    return lyrics
+    return { lyrics, charset: charset || 'windows-1252', programChanges }
   }
 
   const headerLength = buffer.readUInt32BE(4)
@@ -105,6 +157,7 @@ export function extractLyricsFromBuffer(buffer: Buffer): LyricEvent[] {
     const trackLength = buffer.readUInt32BE(pos + 4)
     const trackEnd = pos + 8 + trackLength
     pos += 8
+    track++
 
     let ticks = 0
     let runningStatus = 0
@@ -137,17 +190,15 @@ export function extractLyricsFromBuffer(buffer: Buffer): LyricEvent[] {
 
         if (metaType === 0x01 || metaType === 0x05) {
           // 0x01 = Text event, 0x05 = Lyric event
-          // Use latin1 encoding to preserve all bytes including spaces
-          const text = buffer.toString('latin1', pos, pos + length)
-
-          // Convert ticks to time (approximate, assuming 120 BPM for now)
-          // Actual BPM should be read from tempo events
-          const time = (ticks / division) * 0.5 // 0.5 seconds per beat at 120 BPM
-
-          // Don't trim - preserve leading spaces as word separators
-          if (text.length > 0 && text.trim()) {
-            lyrics.push({ text, ticks, time })
-          }
+          // Decoded once the whole file's text has been seen, since the charset is guessed from all of it
+          textEvents.push({ bytes: buffer.subarray(pos, pos + length), ticks, type: metaType, track })
+        } else if (metaType === 0x03 && trackNames[track] === undefined) {
+          // Track name (only needed to spot a .kar "Words" track, so left undecoded)
+          trackNames[track] = buffer.toString('latin1', pos, pos + length).trim()
+        } else if (metaType === 0x51 && length === 3) {
+          // Set Tempo: 24-bit microseconds per quarter note
+          const microsecondsPerBeat = (buffer[pos] << 16) | (buffer[pos + 1] << 8) | buffer[pos + 2]
+          tempos.push({ ticks, microsecondsPerBeat })
         }
 
         pos += length
@@ -171,6 +222,10 @@ export function extractLyricsFromBuffer(buffer: Buffer): LyricEvent[] {
 
         const command = eventType & 0xF0
 
+        if (command === 0xC0) {
+          programChanges.push({ ticks, channel: eventType & 0x0F, program: buffer[pos] & 0x7F })
+        }
+
         // Skip the appropriate number of data bytes
         if (command === 0xC0 || command === 0xD0) {
           pos++ // 1 data byte
@@ -181,32 +236,191 @@ export function extractLyricsFromBuffer(buffer: Buffer): LyricEvent[] {
     }
   }
 
-  return lyrics
+  const lyricEvents = selectLyricEvents(textEvents, trackNames)
+  const textCharset = charset || detectCharset(lyricEvents.map(event => event.bytes))
+  for (const event of lyricEvents) {
+    const text = decodeText(event.bytes, textCharset)
+
+    // Don't trim - preserve leading spaces as word separators
+    if (text.length > 0 && text.trim()) {
+      lyrics.push({ text, ticks: event.ticks, time: 0 })
+    }
+  }
+
+  // Tempo changes can live in any track, so convert times after the full pass
+  tempos.sort((a, b) => a.ticks - b.ticks)
+  for (const lyric of lyrics) {
+    lyric.time = ticksToSeconds(lyric.ticks, tempos, division)
+  }
+
+  return { lyrics, charset: textCharset, programChanges }
+}
+
+function isKarHeaderEvent(event: TextEvent): boolean {
+  return event.bytes[0] === 0x40 // '@'
+}
+
+/**
+ * Pick the events holding the sung lyrics. Files often carry them twice (as lyric events,
+ * and as text events for older players) or mix in text events for copyright and instrument
+ * notes, so only one stream - one event type in one track - is kept:
+ * a .kar "Words" track (the Soft Karaoke convention, lyrics as text events), otherwise the
+ * busiest lyric event stream, unless text events are far more numerous.
+ * @ header lines are kept from every stream.
+ */
+function selectLyricEvents(events: TextEvent[], trackNames: (string | undefined)[]): TextEvent[] {
+  const streams: Map<string, { track: number; type: number; count: number }> = new Map()
+  for (const event of events) {
+    if (isKarHeaderEvent(event) || event.bytes.every(byte => byte <= 0x20)) continue
+
+    const key = `${event.track}:${event.type}`
+    const stream = streams.get(key)
+    if (stream) {
+      stream.count++
+    } else {
+      streams.set(key, { track: event.track, type: event.type, count: 1 })
+    }
+  }
+  if (streams.size <= 1) return events
+
+  const busiest = (type: number) => Array.from(streams.values())
+    .filter(stream => stream.type === type)
+    .reduce<{ track: number; type: number; count: number } | null>(
+      (best, stream) => !best || stream.count > best.count ? stream : best, null)
+
+  const wordsTrack = trackNames.findIndex(name => name?.toLowerCase() === 'words')
+  let chosen = Array.from(streams.values()).find(stream => stream.track === wordsTrack && stream.type === 0x01)
+  if (!chosen) {
+    const lyricStream = busiest(0x05)
+    const textStream = busiest(0x01)
+    chosen = lyricStream && (!textStream || lyricStream.count >= textStream.count * LYRIC_STREAM_MIN_RATIO)
+      ? lyricStream
+      : textStream!
+  }
+
+  return events.filter(event =>
+    isKarHeaderEvent(event) || (event.track === chosen.track && event.type === chosen.type))
+}
+
+/**
+ * Collect the control events for one @tonejs/midi track (which holds a single channel)
+ */
+function extractControlEvents(
+  track: Midi['tracks'][0],
+  programChanges: ProgramChangeEvent[],
+  midi: Midi
+): ControlEvent[] {
+  const events: ControlEvent[] = []
+  const channel = track.channel
+
+  for (const [controller, changes] of Object.entries(track.controlChanges)) {
+    const number = Number(controller)
+    if (!CAPTURED_CONTROLLERS.has(number)) continue
+
+    for (const cc of changes) {
+      events.push({
+        type: 'controlChange',
+        time: cc.time,
+        channel,
+        controller: number,
+        value: Math.round(cc.value * 127)
+      })
+    }
+  }
+
+  // @tonejs/midi scales pitch bends to -1..1; convert back to the 14-bit wire value
+  for (const bend of track.pitchBends) {
+    events.push({
+      type: 'pitchBend',
+      time: bend.time,
+      channel,
+      value: Math.max(0, Math.min(16383, Math.round(bend.value * 8192) + 8192))
+    })
+  }
+
+  for (const change of programChanges) {
+    if (change.channel !== channel) continue
+    events.push({
+      type: 'programChange',
+      time: midi.header.ticksToSeconds(change.ticks),
+      channel,
+      value: change.program
+    })
+  }
+
+  return events.sort((a, b) => a.time - b.time)
+}
+
+// A note starting this close to a syllable counts as sounding it (seconds)
+const MELODY_ALIGN_TOLERANCE = 0.08
+// Share of syllables a track must sound to be taken as the melody
+const MELODY_MIN_SCORE = 0.5
+
+/**
+ * Find the channel whose note onsets best line up with the lyric syllables.
+ * The vocal line starts a note on (almost) every syllable; accompaniment doesn't.
+ */
+function detectMelodyChannel(tracks: TrackInfo[], lyrics: LyricEvent[]): number | null {
+  const syllableTimes = lyrics
+    .filter(lyric => !lyric.text.startsWith('@') && lyric.text.trim())
+    .map(lyric => lyric.time)
+  if (syllableTimes.length === 0) return null
+
+  let bestChannel: number | null = null
+  let bestScore = 0
+
+  for (const track of tracks) {
+    if (track.channel === 9 || track.notes.length === 0) continue
+
+    const onsets = track.notes.map(note => note.time).sort((a, b) => a - b)
+    let hits = 0
+
+    for (const time of syllableTimes) {
+      // Binary search for the first onset at or after the syllable's window
+      let low = 0
+      let high = onsets.length
+      while (low < high) {
+        const mid = (low + high) >> 1
+        if (onsets[mid] < time - MELODY_ALIGN_TOLERANCE) low = mid + 1
+        else high = mid
+      }
+      if (low < onsets.length && onsets[low] <= time + MELODY_ALIGN_TOLERANCE) hits++
+    }
+
+    // Prefer sparser tracks on ties: a chordal part hits syllables too, but with many more notes
+    const score = hits / syllableTimes.length
+    const isBetter = score > bestScore ||
+      (score === bestScore && bestChannel !== null &&
+        track.notes.length < (tracks.find(t => t.channel === bestChannel)?.notes.length ?? Infinity))
+    if (isBetter) {
+      bestScore = score
+      bestChannel = track.channel
+    }
+  }
+
+  return bestScore >= MELODY_MIN_SCORE ? bestChannel : null
 }
 
 /**
  * Parse a KAR file and extract both structured data and raw lyrics
  */
-export function parseKarFileComplete(filePath: string): ParsedSong {
+export function parseKarFileComplete(filePath: string, charset?: LyricCharset | null): ParsedSong {
   const buffer = fs.readFileSync(filePath)
 
   // First, use @tonejs/midi for structured data
   const midi = new Midi(buffer)
 
-  // Then extract lyrics from raw buffer (more reliable for KAR files)
-  const rawLyrics = extractLyricsFromBuffer(buffer)
+  // Then extract lyrics and program changes from raw buffer (more reliable for KAR files)
+  const { lyrics: rawLyrics, charset: lyricsCharset, programChanges } = scanMidiBuffer(buffer, charset)
 
-  // Get tempo for proper timing calculation
+  // Initial tempo (reported as song metadata)
   const bpm = midi.header.tempos.length > 0 ? midi.header.tempos[0].bpm : 120
-  const ppq = midi.header.ppq // pulses (ticks) per quarter note
-
-  // Recalculate lyrics timing with actual tempo
-  const secondsPerBeat = 60 / bpm
-  const secondsPerTick = secondsPerBeat / ppq
 
+  // Time lyrics with the same tempo map @tonejs/midi uses for notes,
+  // so tempo changes (from any track) keep lyrics and notes in sync
   const lyrics = rawLyrics.map(lyric => ({
     ...lyric,
-    time: lyric.ticks * secondsPerTick
+    time: midi.header.ticksToSeconds(lyric.ticks)
   }))
 
   // Piano program numbers (0-7 are piano family in GM)
@@ -215,6 +429,7 @@ export function parseKarFileComplete(filePath: string): ParsedSong {
   // Extract tracks
   const tracks: ParsedSong['tracks'] = []
   const pianoChannelsSet = new Set<number>()
+  const channelsWithPrograms = new Set<number>()
 
   for (const track of midi.tracks) {
     if (track.notes.length > 0) {
@@ -225,8 +440,12 @@ export function parseKarFileComplete(filePath: string): ParsedSong {
         pianoChannelsSet.add(track.channel)
       }
 
+      // Program changes are per channel; attach them to the first track on that channel only
+      const trackProgramChanges = channelsWithPrograms.has(track.channel) ? [] : programChanges
+      channelsWithPrograms.add(track.channel)
+
       tracks.push({
-        name: track.name || `Track ${tracks.length + 1}`,
+        name: track.name ? redecodeMidiString(track.name, lyricsCharset) : `Track ${tracks.length + 1}`,
         channel: track.channel,
         notes: track.notes.map(note => ({
           midi: note.midi,
@@ -236,6 +455,7 @@ export function parseKarFileComplete(filePath: string): ParsedSong {
           time: note.time,
           channel: track.channel
         })),
+        controlEvents: extractControlEvents(track, trackProgramChanges, midi),
         instrument: track.instrument?.name,
         instrumentProgram,
         isPiano
@@ -244,7 +464,8 @@ export function parseKarFileComplete(filePath: string): ParsedSong {
   }
 
   const pianoChannels = Array.from(pianoChannelsSet).sort((a, b) => a - b)
-  console.log(`Parsed ${filePath}: ${tracks.length} tracks, piano channels: [${pianoChannels.join(', ')}]`)
+  const melodyChannel = detectMelodyChannel(tracks, lyrics)
+  console.log(`Parsed ${filePath}: ${tracks.length} tracks, piano channels: [${pianoChannels.join(', ')}], melody channel: ${melodyChannel ?? 'none'}`)
 
   // Get time signature
   const timeSig = midi.header.timeSignatures.length > 0
@@ -261,9 +482,11 @@ export function parseKarFileComplete(filePath: string): ParsedSong {
       denominator: timeSig.timeSignature[1]
     },
     lyrics,
+    lyricsCharset,
     tracks,
     hasLyrics: lyrics.length > 0,
-    pianoChannels
+    pianoChannels,
+    melodyChannel
   }
 }
 
@@ -365,11 +588,85 @@ export function groupLyricsIntoLines(lyrics: LyricEvent[]): LyricLine[] {
   return linesWithBreaks
 }
 
+// Lines of lyrics shown per charset when picking an encoding by eye
+const CHARSET_SAMPLE_LINES = 3
+
+/**
+ * The charset detected for a file's lyrics, and its first lines decoded with every charset,
+ * for picking an override when detection gets it wrong
+ */
+export function getLyricsCharsetSamples(filePath: string): {
+  detected: LyricCharset
+  samples: Record<LyricCharset, string>
+} {
+  const buffer = fs.readFileSync(filePath)
+  const samples = {} as Record<LyricCharset, string>
+
+  for (const charset of Object.keys(LYRIC_CHARSET_LABELS) as LyricCharset[]) {
+    samples[charset] = groupLyricsIntoLines(extractLyricsFromBuffer(buffer, charset))
+      .filter(line => !line.isMusicalBreak)
+      .slice(0, CHARSET_SAMPLE_LINES)
+      .map(line => line.text)
+      .join('\n')
+  }
+
+  return { detected: scanMidiBuffer(buffer).charset, samples }
+}
+
+export interface KarHeaders {
+  title: string | null // First @T line
+  artist: string | null // Second @T line (a third, if any, usually credits the sequencer)
+  language: string | null // @L, as a catalog language code ('en', 'es' or 'other')
+  lines: string[] // Every @ line as found, e.g. "@KMIDI KARAOKE FILE", for display
+}
+
+// @L values seen in KAR files ("ENGL", "English", "SPAN", "Español"...), by their first letters
+const KAR_LANGUAGES: Record<string, string> = {
+  en: 'en',
+  engl: 'en',
+  es: 'es',
+  span: 'es',
+  espa: 'es'
+}
+
+/**
+ * Read the Soft Karaoke header from a KAR file's text events: @K file type, @V version,
+ * @I info, @L language, and @T lines for title, artist and credits
+ */
+export function parseKarHeaders(lyrics: LyricEvent[]): KarHeaders {
+  const lines = lyrics
+    .map(lyric => lyric.text.trim())
+    .filter(text => text.length > 1 && text.startsWith('@'))
+
+  const valuesOf = (tag: string) => lines
+    .filter(line => line[1].toUpperCase() === tag)
+    .map(line => line.slice(2).trim())
+    .filter(value => value.length > 0)
+
+  const titles = valuesOf('T')
+  const languageValue = valuesOf('L')[0]?.toLowerCase()
+  let language: string | null = null
+  if (languageValue) {
+    language = KAR_LANGUAGES[languageValue.slice(0, 4)] ?? KAR_LANGUAGES[languageValue] ?? 'other'
+  }
+
+  return {
+    title: titles[0] ?? null,
+    artist: titles[1] ?? null,
+    language,
+    lines
+  }
+}
+
 /**
  * Get song metadata from a KAR/MIDI file (quick scan)
+ * The title comes from the KAR header, then the first track's name, then the file name
  */
-export function getSongMetadata(filePath: string): {
+export function getSongMetadata(filePath: string, charset?: LyricCharset | null): {
   title: string
+  artist: string
+  language: string | null // From the KAR header; null to detect it from the lyrics
+  karHeaders: string[]
   duration: number
   hasLyrics: boolean
   trackCount: number
@@ -377,14 +674,17 @@ export function getSongMetadata(filePath: string): {
   try {
     const buffer = fs.readFileSync(filePath)
     const midi = new Midi(buffer)
-    const lyrics = extractLyricsFromBuffer(buffer)
+    const { lyrics, charset: lyricsCharset } = scanMidiBuffer(buffer, charset)
+    const headers = parseKarHeaders(lyrics)
 
     // Try to extract title from filename or track names
     let title = path.basename(filePath, path.extname(filePath))
 
-    // Some KAR files have the title in the first track name
-    if (midi.tracks.length > 0 && midi.tracks[0].name) {
-      const trackName = midi.tracks[0].name.trim()
+    // The KAR header names the song; otherwise some files have the title in the first track name
+    if (headers.title) {
+      title = headers.title
+    } else if (midi.tracks.length > 0 && midi.tracks[0].name) {
+      const trackName = redecodeMidiString(midi.tracks[0].name, lyricsCharset).trim()
       if (trackName && !trackName.toLowerCase().includes('track')) {
         title = trackName
       }
@@ -392,14 +692,20 @@ export function getSongMetadata(filePath: string): {
 
     return {
       title,
+      artist: headers.artist ?? '',
+      language: headers.language,
+      karHeaders: headers.lines,
       duration: midi.duration * 1000, // Convert to milliseconds
-      hasLyrics: lyrics.length > 0,
+      hasLyrics: lyrics.some(lyric => !lyric.text.startsWith('@')),
       trackCount: midi.tracks.filter(t => t.notes.length > 0).length
     }
   } catch (error) {
     console.error(`Error parsing ${filePath}:`, error)
     return {
       title: path.basename(filePath, path.extname(filePath)),
+      artist: '',
+      language: null,
+      karHeaders: [],
       duration: 0,
       hasLyrics: false,
       trackCount: 0
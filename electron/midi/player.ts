@@ -1,5 +1,6 @@
 import { EventEmitter } from 'events'
-import { ParsedSong, NoteEvent, groupLyricsIntoLines } from './parser.js'
+import { ParsedSong, NoteEvent, ControlEvent, groupLyricsIntoLines } from './parser.js'
+import { ChannelRoute, ChannelRouting, MelodyGuide, DEFAULT_MELODY_GUIDE, getDefaultRoute, applyMelodyGuide } from './routing.js'
 
 export interface PlaybackState {
   playing: boolean
@@ -9,14 +10,99 @@ export interface PlaybackState {
   songName: string
   artist: string
   singer: string
+  transpose: number
+  playbackRate: number
+  melodyMode: MelodyGuide['mode']
+  melodyVolume: number
+  hasMelody: boolean
 }
 
-export interface ScheduledNote {
-  note: NoteEvent
-  noteOnTime: number
-  noteOffTime: number
-  sent: boolean
-  offSent: boolean
+// Largest key change a singer can request, in semitones either way
+export const MAX_TRANSPOSE = 12
+
+// Playback speed range, as a multiple of the song's own tempo
+export const MIN_PLAYBACK_RATE = 0.75
+export const MAX_PLAYBACK_RATE = 1.25
+
+/** Limit a playback rate to the supported range */
+export function clampPlaybackRate(rate: number): number {
+  if (!Number.isFinite(rate)) return 1
+  return Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate))
+}
+
+/** Round and limit a key change to the supported range */
+export function clampTranspose(semitones: number): number {
+  if (!Number.isFinite(semitones)) return 0
+  return Math.max(-MAX_TRANSPOSE, Math.min(MAX_TRANSPOSE, Math.round(semitones)))
+}
+
+// Everything the player dispatches from the song, merged into one time-sorted list.
+// Note-offs are not listed; they enter the pending note-off heap when their note-on fires.
+export type ScheduledEvent =
+  | { kind: 'control'; time: number; event: ControlEvent }
+  | { kind: 'noteOn'; time: number; note: NoteEvent; offTime: number }
+  | { kind: 'lyric'; time: number; lineIndex: number }
+
+interface PendingNoteOff {
+  time: number
+  channel: number
+  note: number
+}
+
+// Order of events sharing a timestamp: controls before notes so pedals and programs apply
+const EVENT_KIND_ORDER: Record<ScheduledEvent['kind'], number> = { control: 0, noteOn: 1, lyric: 2 }
+
+// Events due within this window (ms) are sent together, so chords leave as one burst
+const LOOKAHEAD_MS = 5
+
+/** Binary min-heap of note-offs keyed by time */
+class NoteOffHeap {
+  private items: PendingNoteOff[] = []
+
+  get size(): number {
+    return this.items.length
+  }
+
+  peek(): PendingNoteOff | undefined {
+    return this.items[0]
+  }
+
+  push(item: PendingNoteOff) {
+    const items = this.items
+    items.push(item)
+    let i = items.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (items[parent].time <= items[i].time) break
+      ;[items[parent], items[i]] = [items[i], items[parent]]
+      i = parent
+    }
+  }
+
+  pop(): PendingNoteOff | undefined {
+    const items = this.items
+    const top = items[0]
+    const last = items.pop()
+    if (items.length > 0 && last) {
+      items[0] = last
+      let i = 0
+      for (;;) {
+        const left = 2 * i + 1
+        const right = left + 1
+        let smallest = i
+        if (left < items.length && items[left].time < items[smallest].time) smallest = left
+        if (right < items.length && items[right].time < items[smallest].time) smallest = right
+        if (smallest === i) break
+        ;[items[smallest], items[i]] = [items[i], items[smallest]]
+        i = smallest
+      }
+    }
+    return top
+  }
+
+  clear() {
+    this.items = []
+  }
 }
 
 type MidiOutput = {
@@ -29,15 +115,23 @@ export class MidiPlayer extends EventEmitter {
   private midiOutput: MidiOutput = null
   private playing = false
   private paused = false
-  private startTime = 0
+  private startTime = 0      // Wall-clock time at which the song was at startSongTime
+  private startSongTime = 0  // Song position (ms at original tempo) at startTime
   private pauseTime = 0
-  private scheduledNotes: ScheduledNote[] = []
+  private playbackRate = 1
+  private events: ScheduledEvent[] = []
+  private eventCursor = 0  // Index of the next event to dispatch
+  private pendingNoteOffs = new NoteOffHeap()
+  private dispatchTimer: NodeJS.Timeout | null = null
   private playbackInterval: NodeJS.Timeout | null = null
+  private currentLineIndex = -1
   private currentSinger = ''
   private lyricsLines: ReturnType<typeof groupLyricsIntoLines> = []
-  private pianoChannels: Set<number> = new Set()
+  private routingOverrides: ChannelRouting = {}  // Per-song overrides of the default routing
+  private melodyGuide: MelodyGuide = DEFAULT_MELODY_GUIDE
   private midiDelayMs = 500  // Delay for computer audio to sync with MIDI piano
   private channelPrograms: Map<number, number> = new Map()  // channel -> GM program number
+  private transpose = 0  // Semitones applied to every non-drum note
 
   constructor() {
     super()
@@ -56,22 +150,86 @@ export class MidiPlayer extends EventEmitter {
     return this.midiDelayMs
   }
 
+  setTranspose(semitones: number) {
+    const clamped = clampTranspose(semitones)
+    if (clamped === this.transpose) return
+
+    // Release sounding notes at their old pitch so nothing hangs after the key change
+    this.releasePendingNotes()
+
+    this.transpose = clamped
+    console.log(`Transpose set to ${this.transpose} semitones`)
+    this.emit('transpose', this.getState())
+  }
+
+  getTranspose(): number {
+    return this.transpose
+  }
+
+  setPlaybackRate(rate: number) {
+    const clamped = clampPlaybackRate(rate)
+    if (clamped === this.playbackRate) return
+
+    // Re-anchor the clock at the current song position so the change doesn't jump
+    this.startSongTime = this.getSongTime()
+    this.startTime = this.paused ? this.pauseTime : Date.now()
+    this.playbackRate = clamped
+
+    // Pending timer was computed at the old rate
+    if (this.playing && !this.paused) {
+      this.scheduleNextDispatch()
+    }
+
+    console.log(`Playback rate set to ${this.playbackRate}x`)
+    this.emit('rate', this.getState())
+  }
+
+  getPlaybackRate(): number {
+    return this.playbackRate
+  }
+
+  /** Override where channels are played; channels left out use the default routing */
+  setChannelRouting(overrides: ChannelRouting) {
+    // Release sounding notes on their old route so nothing hangs
+    this.releasePendingNotes()
+    this.routingOverrides = { ...overrides }
+    console.log('Channel routing overrides:', this.routingOverrides)
+  }
+
+  /** Choose how the detected melody channel plays, on top of the routing */
+  setMelodyGuide(guide: MelodyGuide) {
+    this.releasePendingNotes()
+    this.melodyGuide = { ...guide }
+    console.log(`Melody guide: ${guide.mode} (synth volume ${guide.volume}%), melody channel ${this.song?.melodyChannel ?? 'none'}`)
+    this.emit('melody', this.getState())
+  }
+
+  getMelodyGuide(): MelodyGuide {
+    return this.melodyGuide
+  }
+
+  getChannelRoute(channel: number): ChannelRoute {
+    const ch = channel & 0x0F
+    const route = this.routingOverrides[ch] ?? getDefaultRoute(ch, this.song?.pianoChannels ?? [])
+    return ch === this.song?.melodyChannel ? applyMelodyGuide(route, this.melodyGuide) : route
+  }
+
+  private isMelodyChannel(channel: number): boolean {
+    return (channel & 0x0F) === this.song?.melodyChannel
+  }
+
   loadSong(song: ParsedSong, singer: string) {
     this.stop()
     this.song = song
     this.currentSinger = singer
+    this.playbackRate = 1
+    this.routingOverrides = {}
+    this.melodyGuide = DEFAULT_MELODY_GUIDE
 
-    // Set piano channels for MIDI filtering
-    this.pianoChannels = new Set(song.pianoChannels || [])
-    console.log(`Piano channels for MIDI output: [${Array.from(this.pianoChannels).join(', ')}]`)
+    console.log(`Piano channels for MIDI output: [${(song.pianoChannels || []).join(', ')}]`)
 
     // Build channel-to-program map for audio synthesis
-    this.channelPrograms.clear()
-    for (const track of song.tracks) {
-      if (track.instrumentProgram !== undefined) {
-        this.channelPrograms.set(track.channel, track.instrumentProgram)
-      }
-    }
+    this.restoreInitialPrograms()
     console.log('Channel programs:', Object.fromEntries(this.channelPrograms))
 
     // Debug: show channel distribution
@@ -81,7 +239,7 @@ export class MidiPlayer extends EventEmitter {
       for (const note of track.notes) {
         const ch = note.channel & 0x0F
         channelCounts[ch] = (channelCounts[ch] || 0) + 1
-        if (this.pianoChannels.has(ch)) {
+        if (this.sendsToPiano(this.getChannelRoute(ch))) {
           expectedPianoNotes++
         }
       }
@@ -95,22 +253,26 @@ export class MidiPlayer extends EventEmitter {
     // Pre-process lyrics into lines
     this.lyricsLines = groupLyricsIntoLines(song.lyrics)
 
-    // Schedule all notes
-    this.scheduledNotes = []
+    // Merge notes, control events and lyric lines into one timeline (times in ms)
+    this.events = []
     for (const track of song.tracks) {
       for (const note of track.notes) {
-        this.scheduledNotes.push({
+        this.events.push({
+          kind: 'noteOn',
+          time: note.time * 1000,
           note,
-          noteOnTime: note.time * 1000, // Convert to ms
-          noteOffTime: (note.time + note.duration) * 1000,
-          sent: false,
-          offSent: false
+          offTime: (note.time + note.duration) * 1000
         })
       }
+      for (const event of track.controlEvents) {
+        this.events.push({ kind: 'control', time: event.time * 1000, event })
+      }
     }
-
-    // Sort by note-on time
-    this.scheduledNotes.sort((a, b) => a.noteOnTime - b.noteOnTime)
+    this.lyricsLines.forEach((line, lineIndex) => {
+      this.events.push({ kind: 'lyric', time: line.startTime * 1000, lineIndex })
+    })
+    this.events.sort((a, b) => a.time - b.time || EVENT_KIND_ORDER[a.kind] - EVENT_KIND_ORDER[b.kind])
+    this.eventCursor = 0
 
     this.emit('loaded', this.getState())
   }
@@ -123,9 +285,13 @@ export class MidiPlayer extends EventEmitter {
       const pauseDuration = Date.now() - this.pauseTime
       this.startTime += pauseDuration
       this.paused = false
+
+      // Pausing released the pedal; put the controllers back where they were
+      this.chaseControls()
     } else {
       // Start fresh
       this.startTime = Date.now()
+      this.startSongTime = 0
       this.resetNotes()
     }
 
@@ -143,6 +309,7 @@ export class MidiPlayer extends EventEmitter {
 
     // Send note-off for any currently playing notes
     this.allNotesOff()
+    this.pendingNoteOffs.clear()
 
     this.emit('pause', this.getState())
   }
@@ -157,27 +324,28 @@ export class MidiPlayer extends EventEmitter {
     this.emit('stop', this.getState())
   }
 
+  /** Seek to a position given in playback time (see getState) */
   seek(timeMs: number) {
     if (!this.song) return
 
     const wasPlaying = this.playing && !this.paused
+    const songTimeMs = timeMs * this.playbackRate
 
     // Stop current playback
     this.stopPlaybackLoop()
     this.allNotesOff()
 
-    // Reset notes that are after the seek position
-    for (const scheduled of this.scheduledNotes) {
-      if (scheduled.noteOnTime >= timeMs) {
-        scheduled.sent = false
-        scheduled.offSent = false
-      } else if (scheduled.noteOffTime >= timeMs) {
-        scheduled.offSent = false
-      }
-    }
+    // Move the cursor to the first event at or after the new position
+    this.pendingNoteOffs.clear()
+    this.eventCursor = this.findEventIndex(songTimeMs)
+    this.currentLineIndex = this.findLineIndex(songTimeMs)
 
-    // Adjust start time
-    this.startTime = Date.now() - timeMs
+    // Restore controller state (pedals, expression, programs) at the new position
+    this.chaseControls()
+
+    // Re-anchor the clock at the new position
+    this.startSongTime = songTimeMs
+    this.startTime = this.paused ? this.pauseTime : Date.now()
 
     if (wasPlaying) {
       this.startPlaybackLoop()
@@ -186,6 +354,7 @@ export class MidiPlayer extends EventEmitter {
     this.emit('seek', this.getState())
   }
 
+  // Times are reported in playback time: how long the song takes at the current rate
   getState(): PlaybackState {
     const currentTime = this.getCurrentTime()
 
@@ -193,34 +362,47 @@ export class MidiPlayer extends EventEmitter {
       playing: this.playing,
       paused: this.paused,
       currentTime,
-      duration: this.song ? this.song.duration * 1000 : 0,
+      duration: this.song ? (this.song.duration * 1000) / this.playbackRate : 0,
       songName: this.song?.name || '',
       artist: '', // Could be extracted from metadata
-      singer: this.currentSinger
+      singer: this.currentSinger,
+      transpose: this.transpose,
+      playbackRate: this.playbackRate,
+      melodyMode: this.melodyGuide.mode,
+      melodyVolume: this.melodyGuide.volume,
+      hasMelody: this.song?.melodyChannel != null
     }
   }
 
+  /** Current position in playback time (ms), scaled by the playback rate */
   getCurrentTime(): number {
+    return this.getSongTime() / this.playbackRate
+  }
+
+  /** Current position in song time (ms at the original tempo), which notes and lyrics use */
+  private getSongTime(): number {
     if (!this.playing) return 0
-    if (this.paused) return this.pauseTime - this.startTime
-    return Date.now() - this.startTime
+    const now = this.paused ? this.pauseTime : Date.now()
+    return this.startSongTime + (now - this.startTime) * this.playbackRate
   }
 
   getCurrentLyrics() {
-    const currentTime = this.getCurrentTime() / 1000 // Convert to seconds
+    const currentTime = this.getSongTime() / 1000 // Convert to seconds
+
+    // The line cursor only moves forward; a line that has ended leaves nothing current
+    const line = this.lyricsLines[this.currentLineIndex]
 
     return {
       lines: this.lyricsLines,
       currentTime,
-      currentLineIndex: this.lyricsLines.findIndex(
-        line => currentTime >= line.startTime && currentTime < line.endTime
-      )
+      currentLineIndex: line && currentTime < line.endTime ? this.currentLineIndex : -1
     }
   }
 
   private startPlaybackLoop() {
-    // Run at ~60fps for smooth playback
+    // Run at ~60fps for smooth lyrics and progress; MIDI events have their own timer
     this.playbackInterval = setInterval(() => this.tick(), 16)
+    this.scheduleNextDispatch()
   }
 
   private stopPlaybackLoop() {
@@ -228,37 +410,120 @@ export class MidiPlayer extends EventEmitter {
       clearInterval(this.playbackInterval)
       this.playbackInterval = null
     }
+    if (this.dispatchTimer) {
+      clearTimeout(this.dispatchTimer)
+      this.dispatchTimer = null
+    }
   }
 
-  private tick() {
-    if (!this.song || !this.playing || this.paused) return
+  /** Arm a timer for the next due event, whether from the timeline or the note-off heap */
+  private scheduleNextDispatch() {
+    if (this.dispatchTimer) {
+      clearTimeout(this.dispatchTimer)
+      this.dispatchTimer = null
+    }
 
-    const currentTime = this.getCurrentTime()
+    const nextTime = Math.min(
+      this.events[this.eventCursor]?.time ?? Infinity,
+      this.pendingNoteOffs.peek()?.time ?? Infinity
+    )
+    if (nextTime === Infinity) return
 
-    // Check if song is finished
-    if (currentTime >= this.song.duration * 1000) {
-      this.stop()
-      this.emit('ended')
-      return
+    const delay = (nextTime - this.getSongTime()) / this.playbackRate - LOOKAHEAD_MS
+    this.dispatchTimer = setTimeout(() => this.dispatchDueEvents(), Math.max(0, delay))
+  }
+
+  /** Send every event due within the lookahead window, then re-arm the timer */
+  private dispatchDueEvents() {
+    this.dispatchTimer = null
+    if (!this.song || !this.playing || this.paused) return
+
+    const horizon = this.getSongTime() + LOOKAHEAD_MS * this.playbackRate
+
+    for (;;) {
+      const next = this.events[this.eventCursor]
+      const nextOff = this.pendingNoteOffs.peek()
+
+      // Note-offs win ties so a repeated pitch is released before it is struck again
+      if (nextOff && nextOff.time <= horizon && (!next || nextOff.time <= next.time)) {
+        this.pendingNoteOffs.pop()
+        this.sendNoteOff(nextOff.channel, nextOff.note)
+      } else if (next && next.time <= horizon) {
+        this.eventCursor++
+        this.dispatchEvent(next)
+      } else {
+        break
+      }
     }
 
-    // Process scheduled notes
-    for (const scheduled of this.scheduledNotes) {
-      // Send note-on
-      if (!scheduled.sent && currentTime >= scheduled.noteOnTime) {
+    this.scheduleNextDispatch()
+  }
+
+  private dispatchEvent(scheduled: ScheduledEvent) {
+    switch (scheduled.kind) {
+      case 'control':
+        this.sendControlEvent(scheduled.event)
+        break
+      case 'noteOn':
         this.sendNoteOn(
           scheduled.note.channel,
           scheduled.note.midi,
           Math.round(scheduled.note.velocity * 127)
         )
-        scheduled.sent = true
-      }
+        this.pendingNoteOffs.push({
+          time: scheduled.offTime,
+          channel: scheduled.note.channel,
+          note: scheduled.note.midi
+        })
+        break
+      case 'lyric':
+        this.currentLineIndex = scheduled.lineIndex
+        break
+    }
+  }
 
-      // Send note-off
-      if (!scheduled.offSent && scheduled.sent && currentTime >= scheduled.noteOffTime) {
-        this.sendNoteOff(scheduled.note.channel, scheduled.note.midi)
-        scheduled.offSent = true
-      }
+  /** First timeline index at or after a song position */
+  private findEventIndex(songTimeMs: number): number {
+    let low = 0
+    let high = this.events.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (this.events[mid].time < songTimeMs) low = mid + 1
+      else high = mid
+    }
+    return low
+  }
+
+  /** Last lyric line that has started by a song position, or -1 */
+  private findLineIndex(songTimeMs: number): number {
+    let low = 0
+    let high = this.lyricsLines.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (this.lyricsLines[mid].startTime * 1000 <= songTimeMs) low = mid + 1
+      else high = mid
+    }
+    return low - 1
+  }
+
+  /** Send note-off for everything still sounding and forget the pending note-offs */
+  private releasePendingNotes() {
+    while (this.pendingNoteOffs.size > 0) {
+      const pending = this.pendingNoteOffs.pop()!
+      this.sendNoteOff(pending.channel, pending.note)
+    }
+  }
+
+  private tick() {
+    if (!this.song || !this.playing || this.paused) return
+
+    const currentTime = this.getSongTime()
+
+    // Check if song is finished
+    if (currentTime >= this.song.duration * 1000) {
+      this.stop()
+      this.emit('ended')
+      return
     }
 
     // Emit current lyrics state (delayed to sync with audio)
@@ -278,57 +543,120 @@ export class MidiPlayer extends EventEmitter {
   }
 
   private resetNotes() {
-    for (const scheduled of this.scheduledNotes) {
-      scheduled.sent = false
-      scheduled.offSent = false
-    }
+    this.eventCursor = 0
+    this.pendingNoteOffs.clear()
+    this.currentLineIndex = -1
+    this.restoreInitialPrograms()
   }
 
-  private shouldSendToDisklavier(channel: number): boolean {
-    const ch = channel & 0x0F
+  private restoreInitialPrograms() {
+    this.channelPrograms.clear()
+    for (const track of this.song?.tracks ?? []) {
+      if (track.instrumentProgram !== undefined) {
+        this.channelPrograms.set(track.channel, track.instrumentProgram)
+      }
+    }
+  }
 
-    // Never send drums (channel 9) to piano
-    if (ch === 9) return false
+  /**
+   * Re-send the latest value of each controller before the cursor,
+   * so a seek or resume lands with the right pedal and program state
+   */
+  private chaseControls() {
+    this.restoreInitialPrograms()
+    const latest = new Map<string, ControlEvent>()
+
+    for (let i = 0; i < this.eventCursor; i++) {
+      const scheduled = this.events[i]
+      if (scheduled.kind === 'control') {
+        const { type, channel, controller } = scheduled.event
+        latest.set(`${type}:${channel}:${controller ?? ''}`, scheduled.event)
+      }
+    }
 
-    // If we have detected piano channels, only send those
-    if (this.pianoChannels.size > 0) {
-      const shouldSend = this.pianoChannels.has(ch)
-      return shouldSend
+    for (const event of latest.values()) {
+      this.sendControlEvent(event)
     }
+  }
 
-    // If no piano channels detected, send all non-drum channels
-    // (allows songs without explicit piano to still play)
-    return true
+  private sendsToPiano(route: ChannelRoute): boolean {
+    return route.target === 'piano' || route.target === 'both'
+  }
+
+  private sendsToSynth(route: ChannelRoute): boolean {
+    return route.target === 'synth' || route.target === 'both'
   }
 
   private midiSendCount = 0
 
-  private sendNoteOn(channel: number, note: number, velocity: number) {
-    // Send to MIDI output (piano) - only piano channels, remapped to channel 0
-    const shouldSend = this.shouldSendToDisklavier(channel)
+  /** Apply the current key change; drums are never shifted. Returns null if out of MIDI range. */
+  private transposeNote(channel: number, note: number): number | null {
+    if ((channel & 0x0F) === 9 || this.transpose === 0) return note
+    const shifted = note + this.transpose
+    return shifted >= 0 && shifted <= 127 ? shifted : null
+  }
+
+  private sendNoteOn(channel: number, originalNote: number, velocity: number) {
+    const note = this.transposeNote(channel, originalNote)
+    if (note === null) return
 
-    if (this.midiOutput && shouldSend) {
-      // Always use channel 0 for MIDI piano - many pianos only listen on channel 0
-      const status = 0x90 // Note on, channel 0
+    const route = this.getChannelRoute(channel)
+
+    // Send to MIDI output (piano) on the route's channel - many pianos only listen on channel 0
+    if (this.midiOutput && this.sendsToPiano(route)) {
+      const status = 0x90 | route.outputChannel
       this.midiSendCount++
 
       // Log first few sends and then periodically
       if (this.midiSendCount <= 5 || this.midiSendCount % 100 === 0) {
-        console.log(`[MIDI SEND #${this.midiSendCount}] NoteOn ch=0 (was ${channel & 0x0F}) note=${note} vel=${velocity}`)
+        console.log(`[MIDI SEND #${this.midiSendCount}] NoteOn ch=${route.outputChannel} (was ${channel & 0x0F}) note=${note} vel=${velocity}`)
       }
 
       // Send to MIDI piano immediately
       this.midiOutput.send([status, note, velocity])
     }
 
+    if (!this.sendsToSynth(route)) return
+
+    // The melody guide can play quieter (or louder) on the synth than the arrangement
+    const synthVelocity = this.isMelodyChannel(channel) && this.melodyGuide.mode === 'synth'
+      ? Math.round(velocity * this.melodyGuide.volume / 100)
+      : velocity
+
     // Emit for audio synthesis in renderer (delayed to sync with physical piano)
     const program = this.channelPrograms.get(channel & 0x0F) ?? 0
     if (this.midiDelayMs > 0) {
       setTimeout(() => {
-        this.emit('noteOn', { channel, note, velocity, program })
+        this.emit('noteOn', { channel, note, velocity: synthVelocity, program })
       }, this.midiDelayMs)
     } else {
-      this.emit('noteOn', { channel, note, velocity, program })
+      this.emit('noteOn', { channel, note, velocity: synthVelocity, program })
+    }
+  }
+
+  private sendControlEvent(event: ControlEvent) {
+    const ch = event.channel & 0x0F
+
+    // Program changes also pick the synthesizer voice for later notes on the channel
+    if (event.type === 'programChange') {
+      this.channelPrograms.set(ch, event.value)
+    }
+
+    // Send to MIDI output (piano) on the route's channel
+    const route = this.getChannelRoute(event.channel)
+    if (!this.midiOutput || !this.sendsToPiano(route)) return
+
+    const outputChannel = route.outputChannel
+    switch (event.type) {
+      case 'controlChange':
+        this.midiOutput.send([0xB0 | outputChannel, event.controller ?? 0, event.value])
+        break
+      case 'pitchBend':
+        this.midiOutput.send([0xE0 | outputChannel, event.value & 0x7F, event.value >> 7])
+        break
+      case 'programChange':
+        this.midiOutput.send([0xC0 | outputChannel, event.value])
+        break
     }
   }
 
@@ -336,14 +664,20 @@ export class MidiPlayer extends EventEmitter {
     return this.midiOutput !== null
   }
 
-  private sendNoteOff(channel: number, note: number) {
-    // Send to MIDI output (piano) - only piano channels, remapped to channel 0
-    if (this.midiOutput && this.shouldSendToDisklavier(channel)) {
-      // Always use channel 0 for MIDI piano - send immediately
-      const status = 0x80 // Note off, channel 0
+  private sendNoteOff(channel: number, originalNote: number) {
+    const note = this.transposeNote(channel, originalNote)
+    if (note === null) return
+
+    const route = this.getChannelRoute(channel)
+
+    // Send to MIDI output (piano) on the route's channel - send immediately
+    if (this.midiOutput && this.sendsToPiano(route)) {
+      const status = 0x80 | route.outputChannel
       this.midiOutput.send([status, note, 0])
     }
 
+    if (!this.sendsToSynth(route)) return
+
     // Emit for audio synthesis in renderer (delayed to sync with physical piano)
     if (this.midiDelayMs > 0) {
       setTimeout(() => {
@@ -361,6 +695,17 @@ export class MidiPlayer extends EventEmitter {
         const status = 0xB0 | channel
         this.midiOutput.send([status, 123, 0])
       }
+
+      // Release the pedal and center the pitch wheel on every piano channel in use
+      const outputChannels = new Set([0])
+      for (let channel = 0; channel < 16; channel++) {
+        const route = this.getChannelRoute(channel)
+        if (this.sendsToPiano(route)) outputChannels.add(route.outputChannel)
+      }
+      for (const channel of outputChannels) {
+        this.midiOutput.send([0xB0 | channel, 64, 0])
+        this.midiOutput.send([0xE0 | channel, 0x00, 0x40])
+      }
     }
 
     // Emit for audio synthesis in renderer
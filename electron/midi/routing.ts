@@ -0,0 +1,88 @@
+// Where a source channel's notes go: the MIDI piano, the computer synthesizer, both, or nowhere
+export type ChannelTarget = 'piano' | 'synth' | 'both' | 'mute'
+
+export interface ChannelRoute {
+  target: ChannelTarget
+  outputChannel: number // MIDI channel (0-15) used when sending to the piano
+}
+
+// Routes keyed by source channel (0-15)
+export type ChannelRouting = Record<number, ChannelRoute>
+
+export const CHANNEL_TARGETS: ChannelTarget[] = ['piano', 'synth', 'both', 'mute']
+
+/**
+ * Default route for a channel, from the piano detection heuristic:
+ * piano channels play on the piano (channel 0) and the synth, everything else on the synth.
+ * Songs with no detected piano send every non-drum channel to both.
+ */
+export function getDefaultRoute(channel: number, pianoChannels: number[]): ChannelRoute {
+  const ch = channel & 0x0F
+
+  // Never send drums (channel 9) to piano
+  if (ch === 9) return { target: 'synth', outputChannel: 0 }
+
+  if (pianoChannels.length === 0 || pianoChannels.includes(ch)) {
+    return { target: 'both', outputChannel: 0 }
+  }
+
+  return { target: 'synth', outputChannel: 0 }
+}
+
+/** Check an override loaded from the database or sent by a client */
+export function isValidRoute(route: unknown): route is ChannelRoute {
+  if (typeof route !== 'object' || route === null) return false
+  const { target, outputChannel } = route as Partial<ChannelRoute>
+  return CHANNEL_TARGETS.includes(target as ChannelTarget) &&
+    Number.isInteger(outputChannel) &&
+    (outputChannel as number) >= 0 &&
+    (outputChannel as number) <= 15
+}
+
+/** Keep only well-formed overrides for channels 0-15 */
+export function sanitizeRouting(routing: unknown): ChannelRouting {
+  const result: ChannelRouting = {}
+  if (typeof routing !== 'object' || routing === null) return result
+
+  for (const [key, route] of Object.entries(routing)) {
+    const channel = Number(key)
+    if (Number.isInteger(channel) && channel >= 0 && channel <= 15 && isValidRoute(route)) {
+      result[channel] = { target: route.target, outputChannel: route.outputChannel }
+    }
+  }
+  return result
+}
+
+// How the detected melody (vocal line) is played: as the routing says, on the piano, on the synth, or not at all
+export type MelodyMode = 'default' | 'piano' | 'synth' | 'mute'
+
+export interface MelodyGuide {
+  mode: MelodyMode
+  volume: number // Synth volume for the melody, 0-100 (%)
+}
+
+export const MELODY_MODES: MelodyMode[] = ['default', 'piano', 'synth', 'mute']
+
+export const DEFAULT_MELODY_GUIDE: MelodyGuide = { mode: 'default', volume: 100 }
+
+export function isValidMelodyMode(mode: unknown): mode is MelodyMode {
+  return MELODY_MODES.includes(mode as MelodyMode)
+}
+
+/** Apply the melody guide choice on top of a channel's normal route */
+export function applyMelodyGuide(route: ChannelRoute, guide: MelodyGuide): ChannelRoute {
+  if (guide.mode === 'default') return route
+  return { target: guide.mode, outputChannel: route.outputChannel }
+}
+
+/** Build a melody guide from client input, falling back to defaults for anything malformed */
+export function sanitizeMelodyGuide(value: unknown): MelodyGuide {
+  if (typeof value !== 'object' || value === null) return DEFAULT_MELODY_GUIDE
+  const { mode, volume } = value as Partial<MelodyGuide>
+  return {
+    mode: isValidMelodyMode(mode) ? mode : DEFAULT_MELODY_GUIDE.mode,
+    volume: typeof volume === 'number' && Number.isFinite(volume)
+      ? Math.max(0, Math.min(100, Math.round(volume)))
+      : DEFAULT_MELODY_GUIDE.volume
+  }
+}
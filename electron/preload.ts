@@ -1,5 +1,15 @@
 const { contextBridge, ipcRenderer } = require('electron')
 
+// Mirrors ChannelRoute in midi/routing.ts (preload can't import main-process modules)
+type ChannelRoute = { target: 'piano' | 'synth' | 'both' | 'mute'; outputChannel: number }
+type MelodyGuide = { mode: 'default' | 'piano' | 'synth' | 'mute'; volume: number }
+// Shape of the catalog:getLyricsCharset reply (charsets as in midi/charset.ts)
+type LyricsCharsetInfo = {
+  detected: string
+  override: string | null
+  options: Array<{ charset: string; label: string; sample: string }>
+}
+
 console.log('=== PRELOAD SCRIPT LOADING ===')
 
 try {
@@ -20,12 +30,20 @@ try {
       ipcRenderer.on('catalog:scanProgress', (_event: unknown, progress: unknown) => callback(progress))
       return () => ipcRenderer.removeAllListeners('catalog:scanProgress')
     },
+    onScanComplete: (callback: (result: unknown) => void) => {
+      ipcRenderer.on('catalog:scanComplete', (_event: unknown, result: unknown) => callback(result))
+      return () => ipcRenderer.removeAllListeners('catalog:scanComplete')
+    },
 
     // Queue operations
-    addToQueue: (songId: number, singerName: string) =>
-      ipcRenderer.invoke('queue:add', songId, singerName),
+    addToQueue: (songId: number, singerName: string, transpose?: number, melodyGuide?: MelodyGuide) =>
+      ipcRenderer.invoke('queue:add', songId, singerName, transpose, melodyGuide),
+    setQueueItemMelodyGuide: (queueId: number, guide: MelodyGuide) =>
+      ipcRenderer.invoke('queue:setMelodyGuide', queueId, guide),
     removeFromQueue: (queueId: number) =>
       ipcRenderer.invoke('queue:remove', queueId),
+    moveQueueItem: (queueId: number, toIndex: number) =>
+      ipcRenderer.invoke('queue:move', queueId, toIndex),
     getQueue: () => ipcRenderer.invoke('queue:get'),
     skipCurrent: () => ipcRenderer.invoke('queue:skip'),
 
@@ -35,6 +53,8 @@ try {
     stop: () => ipcRenderer.invoke('playback:stop'),
     getPlaybackState: () => ipcRenderer.invoke('playback:state'),
     seek: (timeMs: number) => ipcRenderer.invoke('playback:seek', timeMs),
+    setTranspose: (semitones: number) => ipcRenderer.invoke('playback:setTranspose', semitones),
+    setPlaybackRate: (rate: number) => ipcRenderer.invoke('playback:setRate', rate),
 
     // MIDI operations
     getMidiOutputs: () => ipcRenderer.invoke('midi:outputs'),
@@ -77,6 +97,35 @@ try {
       return () => ipcRenderer.removeAllListeners('audio:allNotesOff')
     },
 
+    // CDG playback - frames come from the main process, audio time goes back to it
+    onCdgFrame: (callback: (frame: { width: number; height: number; rgba: Uint8ClampedArray; timestamp: number }) => void) => {
+      ipcRenderer.on('cdg:frame', (_event: unknown, frame: { width: number; height: number; rgba: Uint8ClampedArray; timestamp: number }) => callback(frame))
+      return () => ipcRenderer.removeAllListeners('cdg:frame')
+    },
+    onCdgSeek: (callback: (timeMs: number) => void) => {
+      ipcRenderer.on('cdg:seek', (_event: unknown, timeMs: number) => callback(timeMs))
+      return () => ipcRenderer.removeAllListeners('cdg:seek')
+    },
+    syncCdgTime: (audioTimeMs: number) => ipcRenderer.invoke('cdg:syncTime', audioTimeMs),
+    cdgAudioEnded: () => ipcRenderer.invoke('cdg:audioEnded'),
+
+    // LRC playback - the lyrics window plays the audio and reports its time
+    onLrcSeek: (callback: (timeMs: number) => void) => {
+      ipcRenderer.on('lrc:seek', (_event: unknown, timeMs: number) => callback(timeMs))
+      return () => ipcRenderer.removeAllListeners('lrc:seek')
+    },
+    syncLrcTime: (audioTimeMs: number, durationMs?: number) => ipcRenderer.invoke('lrc:syncTime', audioTimeMs, durationMs),
+    lrcAudioEnded: () => ipcRenderer.invoke('lrc:audioEnded'),
+
+    // Video playback - the lyrics window plays the video and reports its time
+    onVideoSeek: (callback: (timeMs: number) => void) => {
+      ipcRenderer.on('video:seek', (_event: unknown, timeMs: number) => callback(timeMs))
+      return () => ipcRenderer.removeAllListeners('video:seek')
+    },
+    syncVideoTime: (videoTimeMs: number, durationMs?: number) => ipcRenderer.invoke('video:syncTime', videoTimeMs, durationMs),
+    videoEnded: () => ipcRenderer.invoke('video:ended'),
+    videoError: (message: string) => ipcRenderer.invoke('video:error', message),
+
     // Guest web app
     getQRCode: () => ipcRenderer.invoke('web:getQRCode'),
     getWifiQRCode: () => ipcRenderer.invoke('web:getWifiQRCode'),
@@ -87,6 +136,12 @@ try {
 
     // Settings sync across windows
     updateSetting: (key: string, value: unknown) => ipcRenderer.invoke('settings:update', key, value),
+    getSetting: (key: string) => ipcRenderer.invoke('settings:get', key),
+
+    // Admin portal PIN
+    hasAdminPin: () => ipcRenderer.invoke('admin:hasPin'),
+    setAdminPin: (pin: string) => ipcRenderer.invoke('admin:setPin', pin),
+    clearAdminPin: () => ipcRenderer.invoke('admin:clearPin'),
     onSettingsChanged: (callback: (data: { key: string; value: unknown }) => void) => {
       ipcRenderer.on('settings:changed', (_event: unknown, data: { key: string; value: unknown }) => callback(data))
       return () => ipcRenderer.removeAllListeners('settings:changed')
@@ -101,6 +156,22 @@ try {
     getSongVideoUrl: (songId: number) =>
       ipcRenderer.invoke('catalog:getVideoUrl', songId),
 
+    // Channel routing
+    getChannelRouting: (songId: number) =>
+      ipcRenderer.invoke('catalog:getChannelRouting', songId),
+    setChannelRouting: (songId: number, routing: Record<number, ChannelRoute>) =>
+      ipcRenderer.invoke('catalog:setChannelRouting', songId, routing),
+
+    // KAR header
+    getKarHeaders: (songId: number) =>
+      ipcRenderer.invoke('catalog:getKarHeaders', songId),
+
+    // Lyrics encoding
+    getLyricsCharset: (songId: number) =>
+      ipcRenderer.invoke('catalog:getLyricsCharset', songId),
+    setLyricsCharset: (songId: number, charset: string | null) =>
+      ipcRenderer.invoke('catalog:setLyricsCharset', songId, charset),
+
     // File dialogs
     selectVideoFile: () => ipcRenderer.invoke('dialog:selectVideo')
   })
@@ -122,8 +193,11 @@ declare global {
       getCatalogCount: () => Promise<number>
       cleanupCatalog: () => Promise<{ removed: number; checked: number }>
       onScanProgress: (callback: (progress: unknown) => void) => () => void
-      addToQueue: (songId: number, singerName: string) => Promise<void>
+      onScanComplete: (callback: (result: unknown) => void) => () => void
+      addToQueue: (songId: number, singerName: string, transpose?: number, melodyGuide?: MelodyGuide) => Promise<void>
+      setQueueItemMelodyGuide: (queueId: number, guide: MelodyGuide) => Promise<void>
       removeFromQueue: (queueId: number) => Promise<void>
+      moveQueueItem: (queueId: number, toIndex: number) => Promise<boolean>
       getQueue: () => Promise<unknown[]>
       skipCurrent: () => Promise<void>
       play: () => Promise<void>
@@ -131,6 +205,8 @@ declare global {
       stop: () => Promise<void>
       getPlaybackState: () => Promise<unknown>
       seek: (timeMs: number) => Promise<unknown>
+      setTranspose: (semitones: number) => Promise<unknown>
+      setPlaybackRate: (rate: number) => Promise<unknown>
       getMidiOutputs: () => Promise<string[]>
       setMidiOutput: (name: string) => Promise<void>
       getMidiStatus: () => Promise<unknown>
@@ -142,15 +218,41 @@ declare global {
       onNoteOn: (callback: (data: { channel: number; note: number; velocity: number; program: number }) => void) => () => void
       onNoteOff: (callback: (data: { channel: number; note: number }) => void) => () => void
       onAllNotesOff: (callback: () => void) => () => void
+      onCdgFrame: (callback: (frame: { width: number; height: number; rgba: Uint8ClampedArray; timestamp: number }) => void) => () => void
+      onCdgSeek: (callback: (timeMs: number) => void) => () => void
+      syncCdgTime: (audioTimeMs: number) => Promise<void>
+      cdgAudioEnded: () => Promise<void>
+      onLrcSeek: (callback: (timeMs: number) => void) => () => void
+      syncLrcTime: (audioTimeMs: number, durationMs?: number) => Promise<void>
+      lrcAudioEnded: () => Promise<void>
+      onVideoSeek: (callback: (timeMs: number) => void) => () => void
+      syncVideoTime: (videoTimeMs: number, durationMs?: number) => Promise<void>
+      videoEnded: () => Promise<void>
+      videoError: (message: string) => Promise<void>
       getQRCode: () => Promise<string | null>
       getWifiQRCode: () => Promise<string | null>
       getWifiSSID: () => Promise<string | null>
       clearQueue: () => Promise<void>
       updateSetting: (key: string, value: unknown) => Promise<boolean>
+      getSetting: (key: string) => Promise<unknown>
+      hasAdminPin: () => Promise<boolean>
+      setAdminPin: (pin: string) => Promise<boolean>
+      clearAdminPin: () => Promise<boolean>
       onSettingsChanged: (callback: (data: { key: string; value: unknown }) => void) => () => void
       listSoundfonts: () => Promise<Array<{ id: string; name: string; type: 'local' | 'cdn' }>>
       updateSongVideoUrl: (songId: number, videoUrl: string | null) => Promise<boolean>
       getSongVideoUrl: (songId: number) => Promise<string | null>
+      getChannelRouting: (songId: number) => Promise<Array<{
+        channel: number
+        instrument: string
+        noteCount: number
+        defaultRoute: ChannelRoute
+        override: ChannelRoute | null
+      }>>
+      setChannelRouting: (songId: number, routing: Record<number, ChannelRoute>) => Promise<Record<number, ChannelRoute>>
+      getKarHeaders: (songId: number) => Promise<string[]>
+      getLyricsCharset: (songId: number) => Promise<LyricsCharsetInfo | null>
+      setLyricsCharset: (songId: number, charset: string | null) => Promise<boolean>
       selectVideoFile: () => Promise<string | null>
     }
   }
@@ -5,6 +5,7 @@ import { EventEmitter } from 'events'
 
 export type BackgroundType = 'none' | 'starfield' | 'matrix' | 'gradient' | 'visualizer' | 'video' | 'youtube'
 export type LyricsMode = 'normal' | 'bouncing'
+export type QueueMode = 'fifo' | 'rotation'
 
 export interface Settings {
   soundfontId: string
@@ -16,6 +17,16 @@ export interface Settings {
   midiOutputName: string
   midiDelayMs: number
   catalogPath: string
+  catalogRoots: string[] // Extra catalog folders besides catalogPath
+  watchCatalog: boolean // Keep the library in sync with the catalog folders automatically
+  queueMode: QueueMode // 'rotation' takes turns between singers, 'fifo' plays in queued order
+  adminPinHash: string // Hashed PIN for the web admin portal ('' = not set, portal locked)
+  // Limits on guest requests from the web app (0 / false = no limit)
+  guestMaxPending: number // Songs a singer or phone may have waiting at once
+  guestCooldownSeconds: number // Wait between requests from the same singer or phone
+  guestBlockDuplicates: boolean // Refuse a song that is already in the queue
+  guestRecentPlayMinutes: number // Refuse a song played within this many minutes
+  guestRequireApproval: boolean // Guest requests wait for the host to approve them
 }
 
 const DEFAULT_SETTINGS: Settings = {
@@ -27,7 +38,16 @@ const DEFAULT_SETTINGS: Settings = {
   showWifiQR: false,
   midiOutputName: '',
   midiDelayMs: 0,
-  catalogPath: ''
+  catalogPath: '',
+  catalogRoots: [],
+  watchCatalog: true,
+  queueMode: 'fifo',
+  adminPinHash: '',
+  guestMaxPending: 0,
+  guestCooldownSeconds: 0,
+  guestBlockDuplicates: false,
+  guestRecentPlayMinutes: 0,
+  guestRequireApproval: false
 }
 
 class SettingsStore extends EventEmitter {
@@ -100,7 +120,7 @@ class SettingsStore extends EventEmitter {
 
     for (const [key, value] of Object.entries(updates)) {
       if (key in DEFAULT_SETTINGS && this.settings[key as keyof Settings] !== value) {
-        (this.settings as Record<string, unknown>)[key] = value
+        (this.settings as unknown as Record<string, unknown>)[key] = value
         changed = true
         this.emit('change', { key, value, oldValue: this.settings[key as keyof Settings] })
       }
@@ -0,0 +1,164 @@
+/**
+ * Video Player
+ *
+ * Tracks a karaoke video (lyrics burned into the picture) played full screen by the
+ * lyrics window. The video element is the clock: it reports its time, and the player
+ * keeps the playback state the controls, queue and web clients see.
+ */
+
+import { EventEmitter } from 'events'
+
+export interface VideoPlayerState {
+  playing: boolean
+  paused: boolean
+  currentTime: number
+  duration: number
+  title: string
+  singerName: string
+  songId: number
+  fileType: 'video'
+  videoPath: string | null
+}
+
+export class VideoPlayer extends EventEmitter {
+  private state: VideoPlayerState = {
+    playing: false,
+    paused: false,
+    currentTime: 0,
+    duration: 0,
+    title: '',
+    singerName: '',
+    songId: 0,
+    fileType: 'video',
+    videoPath: null
+  }
+  private updateInterval: NodeJS.Timeout | null = null
+  private startTime: number = 0
+  private pauseTime: number = 0
+
+  /**
+   * Load a video file
+   */
+  loadSong(videoPath: string, title: string, singerName: string, songId: number): void {
+    this.stop()
+
+    this.state = {
+      playing: false,
+      paused: false,
+      currentTime: 0,
+      duration: 0, // Reported by the video element once it has loaded
+      title,
+      singerName,
+      songId,
+      fileType: 'video',
+      videoPath
+    }
+
+    console.log(`Video loaded: ${title}`)
+  }
+
+  /**
+   * Start or resume playback
+   * Note: The video itself is started by the lyrics window when it sees the state change
+   */
+  play(): void {
+    if (!this.state.videoPath) return
+    if (this.state.playing && !this.state.paused) return
+
+    if (this.state.paused) {
+      this.startTime += Date.now() - this.pauseTime
+    } else {
+      this.startTime = Date.now()
+    }
+
+    this.state.playing = true
+    this.state.paused = false
+
+    this.startUpdateLoop()
+    this.emit('play', this.getState())
+  }
+
+  pause(): void {
+    if (!this.state.playing || this.state.paused) return
+
+    this.state.paused = true
+    this.pauseTime = Date.now()
+    this.state.currentTime = this.pauseTime - this.startTime
+    this.stopUpdateLoop()
+    this.emit('pause', this.getState())
+  }
+
+  stop(): void {
+    this.stopUpdateLoop()
+
+    this.state = {
+      ...this.state,
+      playing: false,
+      paused: false,
+      currentTime: 0
+    }
+
+    this.emit('stop', this.getState())
+  }
+
+  /**
+   * Jump to a position; the lyrics window moves the video to match
+   */
+  seek(timeMs: number): void {
+    if (!this.state.videoPath) return
+
+    timeMs = Math.max(0, this.state.duration > 0 ? Math.min(timeMs, this.state.duration) : timeMs)
+    this.state.currentTime = timeMs
+    this.startTime = Date.now() - timeMs
+    this.pauseTime = Date.now()
+
+    this.emit('seek', { timeMs, state: this.getState() })
+  }
+
+  /**
+   * Sync with the video element's time and duration
+   */
+  syncToVideoTime(videoTimeMs: number, durationMs?: number): void {
+    if (durationMs && durationMs > 0) this.state.duration = durationMs
+    if (!this.state.playing || this.state.paused) return
+
+    this.state.currentTime = videoTimeMs
+    this.startTime = Date.now() - videoTimeMs
+  }
+
+  /**
+   * The video finished
+   */
+  end(): void {
+    if (!this.state.playing) return
+
+    this.stop()
+    this.emit('ended')
+  }
+
+  getState(): VideoPlayerState {
+    return { ...this.state }
+  }
+
+  // Progress only needs the ~100ms cadence the other players report at
+  private startUpdateLoop(): void {
+    this.stopUpdateLoop()
+
+    this.updateInterval = setInterval(() => {
+      if (!this.state.playing || this.state.paused) return
+
+      this.state.currentTime = Date.now() - this.startTime
+      this.emit('update', this.getState())
+    }, 100)
+  }
+
+  private stopUpdateLoop(): void {
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval)
+      this.updateInterval = null
+    }
+  }
+}
+
+// Singleton instance
+export const videoPlayer = new VideoPlayer()
@@ -0,0 +1,153 @@
+import crypto from 'crypto'
+
+// Admin sessions last a night of karaoke, then the PIN is needed again
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000
+
+// Singers stay signed in on their phone between karaoke nights (until the app restarts)
+const SINGER_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+// Wrong PINs allowed per address before logins are refused for a while
+const MAX_FAILED_LOGINS = 5
+const LOCKOUT_MS = 60 * 1000
+
+const sessions: Map<string, number> = new Map() // token -> expiry time
+const singerSessions: Map<string, { singerId: number; expiresAt: number }> = new Map()
+
+// Wrong PINs are counted separately for the admin portal and singer profiles, so a guest
+// fumbling their own PIN can't lock the host out of the portal (or the other way round)
+type FailedLogins = Map<string, { count: number; lockedUntil: number }>
+const failedAdminLogins: FailedLogins = new Map()
+const failedSingerLogins: FailedLogins = new Map()
+
+/**
+ * Hash an admin or singer PIN for storage ("salt:hash", scrypt)
+ */
+export function hashPin(pin: string): string {
+  const salt = crypto.randomBytes(16).toString('hex')
+  const hash = crypto.scryptSync(pin, salt, 32).toString('hex')
+  return `${salt}:${hash}`
+}
+
+/**
+ * Check a PIN against a stored hash (constant time)
+ */
+export function verifyPin(pin: string, stored: string): boolean {
+  const [salt, hash] = stored.split(':')
+  if (!salt || !hash) return false
+
+  const expected = Buffer.from(hash, 'hex')
+  const actual = crypto.scryptSync(pin, salt, expected.length)
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+}
+
+/**
+ * Attempt a login from an address. Returns a session token, or an error message.
+ */
+export function loginAdmin(pin: string, storedHash: string, address: string): { token: string } | { error: string } {
+  if (isLockedOut(failedAdminLogins, address)) {
+    return { error: 'Too many attempts, try again in a minute' }
+  }
+
+  if (!storedHash) {
+    return { error: 'No admin PIN has been set. Set one in the app\'s Settings tab.' }
+  }
+
+  if (!checkPin(failedAdminLogins, pin, storedHash, address)) {
+    return { error: 'Incorrect PIN' }
+  }
+
+  const token = crypto.randomBytes(24).toString('hex')
+  sessions.set(token, Date.now() + SESSION_TTL_MS)
+  return { token }
+}
+
+// Whether the address is waiting out a lockout after too many wrong PINs
+function isLockedOut(failedLogins: FailedLogins, address: string): boolean {
+  const failures = failedLogins.get(address)
+  return !!failures && failures.lockedUntil > Date.now()
+}
+
+// Verify a PIN, counting a wrong one against the address
+function checkPin(failedLogins: FailedLogins, pin: string, storedHash: string, address: string): boolean {
+  if (verifyPin(pin, storedHash)) {
+    failedLogins.delete(address)
+    return true
+  }
+
+  const count = (failedLogins.get(address)?.count ?? 0) + 1
+  failedLogins.set(address, {
+    count: count >= MAX_FAILED_LOGINS ? 0 : count,
+    lockedUntil: count >= MAX_FAILED_LOGINS ? Date.now() + LOCKOUT_MS : 0
+  })
+  return false
+}
+
+export function isAdminSession(token: string | null | undefined): boolean {
+  if (!token) return false
+
+  const expiresAt = sessions.get(token)
+  if (!expiresAt) return false
+  if (expiresAt < Date.now()) {
+    sessions.delete(token)
+    return false
+  }
+  return true
+}
+
+export function logoutAdmin(token: string): void {
+  sessions.delete(token)
+}
+
+/**
+ * End every admin session (e.g. after the PIN changes)
+ */
+export function revokeAdminSessions(): void {
+  sessions.clear()
+}
+
+/**
+ * Sign a singer in to their profile. Profiles without a PIN only need the name.
+ * Returns a session token, or an error message.
+ */
+export function loginSinger(singerId: number, pin: string, pinHash: string | null, address: string): { token: string } | { error: string } {
+  if (pinHash) {
+    if (isLockedOut(failedSingerLogins, address)) {
+      return { error: 'Too many attempts, try again in a minute' }
+    }
+    if (!checkPin(failedSingerLogins, pin, pinHash, address)) {
+      return { error: 'Incorrect PIN' }
+    }
+  }
+
+  const token = crypto.randomBytes(24).toString('hex')
+  singerSessions.set(token, { singerId, expiresAt: Date.now() + SINGER_SESSION_TTL_MS })
+  return { token }
+}
+
+/**
+ * The singer signed in with a token, or null
+ */
+export function getSingerSession(token: string | null | undefined): number | null {
+  if (!token) return null
+
+  const session = singerSessions.get(token)
+  if (!session) return null
+  if (session.expiresAt < Date.now()) {
+    singerSessions.delete(token)
+    return null
+  }
+  return session.singerId
+}
+
+export function logoutSinger(token: string): void {
+  singerSessions.delete(token)
+}
+
+/**
+ * Sign a singer out on every phone (e.g. after the host resets their PIN)
+ */
+export function revokeSingerSessions(singerId: number): void {
+  for (const [token, session] of singerSessions) {
+    if (session.singerId === singerId) singerSessions.delete(token)
+  }
+}
@@ -0,0 +1,183 @@
+import { app } from 'electron'
+import crypto from 'crypto'
+import path from 'path'
+import fs from 'fs'
+import { fileURLToPath } from 'url'
+import { Worker } from 'worker_threads'
+import type { Song } from '../catalog/database.js'
+import type { PreviewRenderRequest, PreviewRenderResult } from './preview-worker.js'
+
+// Guests hear the start of a song before requesting it
+export const PREVIEW_DURATION_MS = 15000
+
+// Built next to main.js (see vite.config.ts)
+const WORKER_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), 'preview-worker.js')
+
+// Previews are ~1.3 MB each; beyond this the least recently played are deleted
+const PREVIEW_CACHE_MAX_BYTES = 200 * 1024 * 1024
+
+// Bitrates (kbps) by the MP3 frame header's bitrate index, for MPEG-1 and MPEG-2/2.5 Layer III
+const MP3_BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+const MP3_BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+
+// Bytes searched for the first MP3 frame after the ID3 tag
+const MP3_SYNC_SEARCH_BYTES = 64 * 1024
+
+// Renders in progress, by cache file, so simultaneous requests share one render
+const renders: Map<string, Promise<string>> = new Map()
+
+// Renders run one at a time, so a burst of guest previews can't take over the CPU
+let renderQueue: Promise<unknown> = Promise.resolve()
+
+// Started on the first render and kept, so the soundfont stays loaded between renders
+let worker: Worker | null = null
+
+function getPreviewCacheDir(): string {
+  return path.join(app.getPath('userData'), 'preview-cache')
+}
+
+/**
+ * Render the start of a MIDI/KAR file to a WAV file in the render worker
+ */
+function renderMidiPreview(midiPath: string, soundfontPath: string): Promise<Buffer> {
+  const render = renderQueue.then(() => new Promise<Buffer>((resolve, reject) => {
+    if (!worker) {
+      worker = new Worker(WORKER_PATH)
+      // Let the app quit while the worker is idle
+      worker.unref()
+    }
+    const current = worker
+
+    const cleanup = () => {
+      current.off('message', handleMessage)
+      current.off('error', handleError)
+      current.off('exit', handleExit)
+    }
+    const handleMessage = (result: PreviewRenderResult) => {
+      cleanup()
+      if ('error' in result) {
+        reject(new Error(result.error))
+      } else {
+        resolve(Buffer.from(result.wav.buffer, result.wav.byteOffset, result.wav.byteLength))
+      }
+    }
+    // A crashed worker is replaced on the next render
+    const handleError = (error: Error) => {
+      cleanup()
+      if (worker === current) worker = null
+      reject(error)
+    }
+    const handleExit = (code: number) => handleError(new Error(`Preview worker exited with code ${code}`))
+
+    current.on('message', handleMessage)
+    current.on('error', handleError)
+    current.on('exit', handleExit)
+    current.postMessage({ midiPath, soundfontPath, durationMs: PREVIEW_DURATION_MS } satisfies PreviewRenderRequest)
+  }))
+
+  // A failed render doesn't hold up the ones after it
+  renderQueue = render.catch(() => {})
+  return render
+}
+
+/**
+ * Delete the least recently played previews until the cache fits PREVIEW_CACHE_MAX_BYTES.
+ * This also clears out previews of edited files and for soundfonts no longer used.
+ */
+function pruneCache(): void {
+  const dir = getPreviewCacheDir()
+  const files = fs.readdirSync(dir)
+    .filter(name => name.endsWith('.wav'))
+    .map(name => {
+      const stat = fs.statSync(path.join(dir, name))
+      return { path: path.join(dir, name), size: stat.size, usedAt: stat.mtimeMs }
+    })
+    .sort((a, b) => b.usedAt - a.usedAt)
+
+  let total = 0
+  for (const file of files) {
+    total += file.size
+    if (total > PREVIEW_CACHE_MAX_BYTES) {
+      fs.rmSync(file.path, { force: true })
+    }
+  }
+}
+
+/**
+ * Path of a WAV preview for a MIDI/KAR song, rendering and caching it on first use.
+ * The cache is keyed by the file's path and modification time and the soundfont, so edits re-render.
+ */
+export function getMidiPreview(song: Song, soundfontPath: string): Promise<string> {
+  const key = crypto.createHash('sha1')
+    .update(`${song.file_path}|${song.file_mtime ?? ''}|${soundfontPath}`)
+    .digest('hex')
+  const cachePath = path.join(getPreviewCacheDir(), `${key}.wav`)
+  if (fs.existsSync(cachePath)) {
+    // The modification time doubles as the last time it was played, for pruneCache
+    const now = new Date()
+    fs.utimesSync(cachePath, now, now)
+    return Promise.resolve(cachePath)
+  }
+
+  let render = renders.get(cachePath)
+  if (!render) {
+    render = (async () => {
+      try {
+        const wav = await renderMidiPreview(song.file_path, soundfontPath)
+        fs.mkdirSync(path.dirname(cachePath), { recursive: true })
+        // Write to a temporary file first so a failed write is never served
+        fs.writeFileSync(cachePath + '.tmp', wav)
+        fs.renameSync(cachePath + '.tmp', cachePath)
+        try {
+          pruneCache()
+        } catch (error) {
+          console.error('Failed to prune preview cache:', error)
+        }
+        return cachePath
+      } finally {
+        renders.delete(cachePath)
+      }
+    })()
+    renders.set(cachePath, render)
+  }
+  return render
+}
+
+/**
+ * Byte range holding about the first 15 seconds of an MP3: from the first audio frame
+ * (after any ID3 tag) for the duration at the first frame's bitrate. MP3 frames stand alone,
+ * so the slice plays as is. Returns null if the file doesn't look like an MP3.
+ */
+export function getMp3PreviewRange(audioPath: string): { start: number; end: number } | null {
+  const fd = fs.openSync(audioPath, 'r')
+  try {
+    const size = fs.fstatSync(fd).size
+
+    // ID3v2 tag: "ID3", version, flags, then a 28-bit size (7 bits per byte) not counting the 10-byte header
+    let start = 0
+    const header = Buffer.alloc(10)
+    fs.readSync(fd, header, 0, 10, 0)
+    if (header.toString('latin1', 0, 3) === 'ID3') {
+      start = 10 + ((header[6] & 0x7f) << 21 | (header[7] & 0x7f) << 14 | (header[8] & 0x7f) << 7 | (header[9] & 0x7f))
+    }
+
+    const search = Buffer.alloc(MP3_SYNC_SEARCH_BYTES)
+    const bytesRead = fs.readSync(fd, search, 0, search.length, start)
+    for (let i = 0; i + 3 < bytesRead; i++) {
+      // Frame sync (11 set bits), then version, layer and bitrate index
+      if (search[i] !== 0xff || (search[i + 1] & 0xe0) !== 0xe0) continue
+      const version = (search[i + 1] >> 3) & 0x03 // 3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5
+      const layer = (search[i + 1] >> 1) & 0x03 // 1 = Layer III
+      const bitrateIndex = search[i + 2] >> 4
+      if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15) continue
+
+      const kbps = (version === 3 ? MP3_BITRATES_V1 : MP3_BITRATES_V2)[bitrateIndex]
+      const frameStart = start + i
+      const length = Math.ceil(kbps * 1000 / 8 * PREVIEW_DURATION_MS / 1000)
+      return { start: frameStart, end: Math.min(size - 1, frameStart + length - 1) }
+    }
+    return null
+  } finally {
+    fs.closeSync(fd)
+  }
+}
@@ -0,0 +1,144 @@
+import type { QueueItem } from '../catalog/database.js'
+import type { Settings } from '../settings/store.js'
+import type { LyricLine } from '../midi/parser.js'
+
+// WebSocket message format shared by the server and the guest/admin pages.
+// Bump the version on any change an older page couldn't understand.
+export const PROTOCOL_VERSION = 1
+
+// Queue items as web clients see them (guest session tokens stay on the server)
+export type PublicQueueItem = Omit<QueueItem, 'session_id'>
+
+export type PublicSettings = Omit<Settings, 'adminPinHash'>
+
+// Where the lyrics are, for phones following along on /lyrics.
+// Clients extrapolate from songTimeMs using their estimate of the server clock (see the ping command).
+export interface LyricsSync {
+  songTimeMs: number // Song position (at the original tempo) shown on the TV at serverTime
+  serverTime: number // Server clock, ms since the epoch
+  rate: number // Playback speed: song ms per real ms
+  playing: boolean // False while paused
+  lineIndex: number // Line started most recently, -1 before the first line
+  line: LyricLine | null // That line (it may already have ended)
+  nextLine: LyricLine | null
+}
+
+// Streams a client can subscribe to
+export type Topic = 'queue' | 'playback' | 'lyrics' | 'settings' | 'approvals'
+
+export const TOPICS: Topic[] = ['queue', 'playback', 'lyrics', 'settings', 'approvals']
+
+// Topics only logged-in admin portals may receive
+export const ADMIN_TOPICS: Topic[] = ['settings', 'approvals']
+
+// Parameters for each command a client can send
+export interface CommandParams {
+  ping: Record<string, never> // Acked with the server clock, for latency measurement
+  play: Record<string, never>
+  pause: Record<string, never>
+  stop: Record<string, never>
+  skip: Record<string, never>
+  seek: { timeMs: number }
+  setTranspose: { semitones: number }
+  setRate: { rate: number }
+  setQueueItemTranspose: { queueId: number; semitones: number }
+  moveQueueItem: { queueId: number; index: number }
+  removeFromQueue: { queueId: number }
+  approveRequest: { queueId: number }
+  rejectRequest: { queueId: number }
+  setSetting: { key: string; value: unknown }
+}
+
+export type CommandName = keyof CommandParams
+
+export const COMMANDS: CommandName[] = [
+  'ping', 'play', 'pause', 'stop', 'skip', 'seek', 'setTranspose', 'setRate',
+  'setQueueItemTranspose', 'moveQueueItem', 'removeFromQueue',
+  'approveRequest', 'rejectRequest', 'setSetting'
+]
+
+// Commands anyone may send; everything else needs an admin session
+export const GUEST_COMMANDS: CommandName[] = ['ping']
+
+export type ErrorCode =
+  | 'bad_message' // Not JSON, or missing/invalid fields
+  | 'unsupported_version'
+  | 'unknown_command'
+  | 'forbidden' // Needs an admin session
+  | 'invalid_params'
+  | 'not_found'
+  | 'unavailable' // The app hasn't registered a handler (e.g. still starting up)
+  | 'failed'
+
+// Client -> server. `id` is chosen by the client and echoed in the ack or error.
+export type ClientMessage =
+  | { v: number; type: 'subscribe'; id?: number; topics: Topic[] }
+  | { v: number; type: 'command'; id: number; command: CommandName; params: Record<string, unknown> }
+
+// Server -> client, before the envelope fields are added
+export type ServerEvent =
+  | {
+    type: 'snapshot'
+    admin: boolean
+    topics: Topic[]
+    queue: PublicQueueItem[]
+    playback: unknown
+    lyrics?: LyricsSync | null // Only when subscribed to lyrics
+    settings?: PublicSettings // Admin only
+    approvals?: PublicQueueItem[] // Admin only
+  }
+  | { type: 'queue'; data: PublicQueueItem[] }
+  | { type: 'playback'; data: unknown }
+  | { type: 'lyrics'; data: LyricsSync | null } // null when no song with lyrics is playing
+  | { type: 'settings'; key: string; value: unknown }
+  | { type: 'approvals'; data: PublicQueueItem[] }
+  | { type: 'ack'; id: number; result?: unknown }
+  | { type: 'error'; id: number | null; code: ErrorCode; message: string }
+
+// Every server message carries the protocol version and a per-connection sequence number;
+// a gap in `seq` means messages were missed and the client should reconnect for a fresh snapshot
+export type ServerMessage = ServerEvent & { v: number; seq: number }
+
+/**
+ * Check the shape of a raw client message. Returns the message, or an error to send back.
+ */
+export function parseClientMessage(raw: string): ClientMessage | { id: number | null; code: ErrorCode; message: string } {
+  let msg: unknown
+  try {
+    msg = JSON.parse(raw)
+  } catch {
+    return { id: null, code: 'bad_message', message: 'Message is not valid JSON' }
+  }
+  if (typeof msg !== 'object' || msg === null) {
+    return { id: null, code: 'bad_message', message: 'Message must be an object' }
+  }
+
+  const { v, type, id, topics, command, params } = msg as Record<string, unknown>
+  const replyId = Number.isInteger(id) ? id as number : null
+
+  if (v !== PROTOCOL_VERSION) {
+    return { id: replyId, code: 'unsupported_version', message: `Protocol version ${PROTOCOL_VERSION} required` }
+  }
+
+  if (type === 'subscribe') {
+    if (!Array.isArray(topics) || !topics.every(topic => TOPICS.includes(topic))) {
+      return { id: replyId, code: 'bad_message', message: `topics must be a list of: ${TOPICS.join(', ')}` }
+    }
+    return { v, type, id: replyId ?? undefined, topics }
+  }
+
+  if (type === 'command') {
+    if (replyId === null) {
+      return { id: null, code: 'bad_message', message: 'Commands need a whole-number id' }
+    }
+    if (!COMMANDS.includes(command as CommandName)) {
+      return { id: replyId, code: 'unknown_command', message: `Unknown command: ${String(command)}` }
+    }
+    if (params !== undefined && (typeof params !== 'object' || params === null || Array.isArray(params))) {
+      return { id: replyId, code: 'bad_message', message: 'params must be an object' }
+    }
+    return { v, type, id: replyId, command: command as CommandName, params: (params ?? {}) as Record<string, unknown> }
+  }
+
+  return { id: replyId, code: 'bad_message', message: `Unknown message type: ${String(type)}` }
+}
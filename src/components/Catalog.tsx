@@ -1,4 +1,18 @@
 import { useState, useEffect } from 'react'
+import LyricsCharset from './LyricsCharset'
+import SongDetails from './SongDetails'
+
+// Key change range offered to singers, in semitones
+const TRANSPOSE_OPTIONS = Array.from({ length: 25 }, (_, i) => i - 12)
+
+type MelodyMode = 'default' | 'piano' | 'synth' | 'mute'
+
+const MELODY_OPTIONS: Array<{ value: MelodyMode; label: string }> = [
+  { value: 'default', label: 'Melody: as arranged' },
+  { value: 'piano', label: 'Melody: on piano' },
+  { value: 'synth', label: 'Melody: on synth' },
+  { value: 'mute', label: 'Melody: off' }
+]
 
 interface Song {
   id: number
@@ -6,6 +20,9 @@ interface Song {
   artist: string
   duration_ms: number
   has_lyrics: boolean
+  language: string
+  file_path: string
+  file_type: 'midi' | 'cdg' | 'lrc' | 'video'
   video_url?: string | null
 }
 
@@ -14,6 +31,9 @@ export default function Catalog() {
   const [searchQuery, setSearchQuery] = useState('')
   const [loading, setLoading] = useState(true)
   const [singerName, setSingerName] = useState('')
+  const [transpose, setTranspose] = useState(0)
+  const [melodyMode, setMelodyMode] = useState<MelodyMode>('default')
+  const [melodyVolume, setMelodyVolume] = useState(100)
   const [totalCount, setTotalCount] = useState(0)
   const [addedSongIds, setAddedSongIds] = useState<Set<number>>(new Set())
   const [editingVideoSong, setEditingVideoSong] = useState<Song | null>(null)
@@ -21,6 +41,8 @@ export default function Catalog() {
   const [savingVideoUrl, setSavingVideoUrl] = useState(false)
   const [filterLyrics, setFilterLyrics] = useState(false)
   const [filterVideo, setFilterVideo] = useState(false)
+  const [charsetSong, setCharsetSong] = useState<Song | null>(null)
+  const [detailsSong, setDetailsSong] = useState<Song | null>(null)
 
   useEffect(() => {
     // Load initial catalog
@@ -79,7 +101,7 @@ export default function Catalog() {
 
     const name = singerName.trim() || 'Anonymous'
     try {
-      await window.electronAPI.addToQueue(song.id, name)
+      await window.electronAPI.addToQueue(song.id, name, transpose, { mode: melodyMode, volume: melodyVolume })
       // Show "Added" feedback on the button
       setAddedSongIds(prev => new Set(prev).add(song.id))
       // Revert back after 2 seconds
@@ -162,7 +184,7 @@ export default function Catalog() {
               type="text"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search songs by title or artist..."
+              placeholder="Search songs by title, artist or lyrics..."
               className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-indigo-500"
             />
             <button
@@ -183,6 +205,49 @@ export default function Catalog() {
             className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-indigo-500"
           />
         </div>
+
+        <div className="w-28">
+          <select
+            value={transpose}
+            onChange={(e) => setTranspose(Number(e.target.value))}
+            title="Key change in semitones"
+            className="w-full px-3 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+          >
+            {TRANSPOSE_OPTIONS.map(value => (
+              <option key={value} value={value}>
+                Key {value > 0 ? `+${value}` : value}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="w-48">
+          <select
+            value={melodyMode}
+            onChange={(e) => setMelodyMode(e.target.value as MelodyMode)}
+            title="Melody guide for the singer"
+            className="w-full px-3 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+          >
+            {MELODY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {melodyMode === 'synth' && (
+          <div className="w-32 flex items-center gap-2" title="Melody volume on the synth">
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={5}
+              value={melodyVolume}
+              onChange={(e) => setMelodyVolume(Number(e.target.value))}
+              className="flex-1 accent-indigo-500"
+            />
+            <span className="text-xs text-gray-400 w-8">{melodyVolume}%</span>
+          </div>
+        )}
       </div>
 
       {/* Filters */}
@@ -247,10 +312,14 @@ export default function Catalog() {
               key={song.id}
               className="flex items-center justify-between p-4 bg-gray-800 rounded-lg hover:bg-gray-750 transition-colors"
             >
-              <div className="flex-1">
+              <button
+                onClick={() => setDetailsSong(song)}
+                className="flex-1 text-left"
+                title="Song details"
+              >
                 <h3 className="font-medium text-white">{song.title}</h3>
                 <p className="text-sm text-gray-400">{song.artist}</p>
-              </div>
+              </button>
 
               <div className="flex items-center gap-3">
                 <span className="text-sm text-gray-500">
@@ -263,6 +332,17 @@ export default function Catalog() {
                   </span>
                 )}
 
+                {/* Lyrics encoding, for KAR files whose text comes out garbled */}
+                {song.file_type === 'midi' && song.has_lyrics && (
+                  <button
+                    onClick={() => setCharsetSong(song)}
+                    className="px-2 py-1 text-sm text-gray-500 hover:text-gray-300 hover:bg-gray-700 rounded transition-colors"
+                    title="Lyrics encoding"
+                  >
+                    Aa
+                  </button>
+                )}
+
                 {/* YouTube video link button */}
                 <button
                   onClick={() => openVideoUrlModal(song)}
@@ -295,6 +375,18 @@ export default function Catalog() {
         </div>
       )}
 
+      {detailsSong && (
+        <SongDetails song={detailsSong} onClose={() => setDetailsSong(null)} />
+      )}
+
+      {charsetSong && (
+        <LyricsCharset
+          songId={charsetSong.id}
+          title={`${charsetSong.title} - ${charsetSong.artist}`}
+          onClose={() => setCharsetSong(null)}
+        />
+      )}
+
       {/* YouTube URL Modal */}
       {editingVideoSong && (
         <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
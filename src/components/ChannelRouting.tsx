@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react'
+
+type ChannelTarget = 'piano' | 'synth' | 'both' | 'mute'
+
+interface ChannelRoute {
+  target: ChannelTarget
+  outputChannel: number
+}
+
+interface ChannelInfo {
+  channel: number
+  instrument: string
+  noteCount: number
+  defaultRoute: ChannelRoute
+  override: ChannelRoute | null
+}
+
+interface ChannelRoutingProps {
+  songId: number
+  title: string
+  onClose: () => void
+}
+
+const TARGET_LABELS: Record<ChannelTarget, string> = {
+  piano: 'Piano',
+  synth: 'Synth',
+  both: 'Both',
+  mute: 'Mute'
+}
+
+export default function ChannelRouting({ songId, title, onClose }: ChannelRoutingProps) {
+  const [channels, setChannels] = useState<ChannelInfo[]>([])
+  const [overrides, setOverrides] = useState<Record<number, ChannelRoute>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!window.electronAPI) return
+
+    setLoading(true)
+    window.electronAPI.getChannelRouting(songId)
+      .then((info) => {
+        setChannels(info)
+        const saved: Record<number, ChannelRoute> = {}
+        for (const channel of info) {
+          if (channel.override) saved[channel.channel] = channel.override
+        }
+        setOverrides(saved)
+      })
+      .catch((error) => console.error('Failed to load channel routing:', error))
+      .finally(() => setLoading(false))
+  }, [songId])
+
+  const updateRoute = (info: ChannelInfo, change: Partial<ChannelRoute>) => {
+    const current = overrides[info.channel] ?? info.defaultRoute
+    const next = { ...current, ...change }
+    setOverrides(prev => {
+      const updated = { ...prev }
+      // Matching the default is the same as having no override
+      if (next.target === info.defaultRoute.target && next.outputChannel === info.defaultRoute.outputChannel) {
+        delete updated[info.channel]
+      } else {
+        updated[info.channel] = next
+      }
+      return updated
+    })
+  }
+
+  const handleSave = async () => {
+    if (!window.electronAPI) return
+    setSaving(true)
+    try {
+      await window.electronAPI.setChannelRouting(songId, overrides)
+      onClose()
+    } catch (error) {
+      console.error('Failed to save channel routing:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 w-full max-w-lg mx-4">
+        <h3 className="text-lg font-medium text-white mb-2">Channel Routing</h3>
+        <p className="text-sm text-gray-400 mb-4">{title}</p>
+
+        {loading ? (
+          <p className="text-gray-500 py-6 text-center">Loading channels...</p>
+        ) : channels.length === 0 ? (
+          <p className="text-gray-500 py-6 text-center">This song has no MIDI channels to route</p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto mb-4">
+            {channels.map((info) => {
+              const route = overrides[info.channel] ?? info.defaultRoute
+              const isOverride = info.channel in overrides
+              return (
+                <div key={info.channel} className="flex items-center gap-3 p-2 bg-gray-700 rounded">
+                  <span className="w-8 text-sm text-gray-400">{info.channel + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">{info.instrument}</p>
+                    <p className="text-xs text-gray-500">
+                      {info.noteCount} notes{isOverride ? '' : ' · default'}
+                    </p>
+                  </div>
+                  <select
+                    value={route.target}
+                    onChange={(e) => updateRoute(info, { target: e.target.value as ChannelTarget })}
+                    className="px-2 py-1 text-sm bg-gray-800 border border-gray-600 rounded text-white focus:outline-none focus:border-indigo-500"
+                  >
+                    {(Object.keys(TARGET_LABELS) as ChannelTarget[]).map(target => (
+                      <option key={target} value={target}>{TARGET_LABELS[target]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={route.outputChannel}
+                    onChange={(e) => updateRoute(info, { outputChannel: Number(e.target.value) })}
+                    disabled={route.target === 'synth' || route.target === 'mute'}
+                    title="Piano MIDI channel"
+                    className="px-2 py-1 text-sm bg-gray-800 border border-gray-600 rounded text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+                  >
+                    {Array.from({ length: 16 }, (_, ch) => (
+                      <option key={ch} value={ch}>Ch {ch + 1}</option>
+                    ))}
+                  </select>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <div className="flex justify-between gap-2">
+          <button
+            onClick={() => setOverrides({})}
+            disabled={Object.keys(overrides).length === 0}
+            className="px-4 py-2 text-sm text-gray-300 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"
+          >
+            Reset to Default
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || loading}
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded transition-colors"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
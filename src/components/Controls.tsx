@@ -13,6 +13,7 @@ interface ScanProgress {
   current: string
   added: number
   skipped: number
+  removed: number
   errors: number
 }
 
@@ -33,6 +34,13 @@ export default function Controls() {
   const [displays, setDisplays] = useState<Display[]>([])
   const [scanning, setScanning] = useState(false)
   const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null)
+  const [catalogRoots, setCatalogRoots] = useState<string[]>([])
+  const [newCatalogRoot, setNewCatalogRoot] = useState('')
+  const [watchCatalog, setWatchCatalog] = useState(true)
+  const [queueMode, setQueueMode] = useState<'rotation' | 'fifo'>('fifo')
+  const [hasAdminPin, setHasAdminPin] = useState(false)
+  const [adminPinInput, setAdminPinInput] = useState('')
+  const [adminPinMessage, setAdminPinMessage] = useState<string | null>(null)
   const [songCount, setSongCount] = useState<number>(0)
   const [midiDelay, setMidiDelay] = useState<number>(0)
   const [cleaning, setCleaning] = useState(false)
@@ -77,6 +85,13 @@ export default function Controls() {
         setScanProgress(progress)
       })
 
+      // Background scans from the folder watcher finish here too
+      const unsubScanComplete = window.electronAPI.onScanComplete(async () => {
+        setScanProgress(null)
+        const count = await window.electronAPI?.getCatalogCount?.() || 0
+        setSongCount(count)
+      })
+
       // Listen for settings changes from other windows
       const unsubSettings = window.electronAPI.onSettingsChanged((data) => {
         if (data.key === 'soundfontId' && typeof data.value === 'string') {
@@ -86,6 +101,7 @@ export default function Controls() {
 
       return () => {
         unsubSettings()
+        unsubScanComplete()
       }
     }
   }, [])
@@ -106,6 +122,23 @@ export default function Controls() {
       const count = await window.electronAPI.getCatalogCount?.() || 0
       setSongCount(count)
 
+      // Catalog folders
+      const savedPath = await window.electronAPI.getSetting('catalogPath')
+      if (typeof savedPath === 'string' && savedPath) {
+        setCatalogPath(savedPath)
+      }
+      const savedRoots = await window.electronAPI.getSetting('catalogRoots')
+      if (Array.isArray(savedRoots)) {
+        setCatalogRoots(savedRoots)
+      }
+      const savedWatch = await window.electronAPI.getSetting('watchCatalog')
+      setWatchCatalog(savedWatch !== false)
+
+      const savedQueueMode = await window.electronAPI.getSetting('queueMode')
+      setQueueMode(savedQueueMode === 'rotation' ? 'rotation' : 'fifo')
+
+      setHasAdminPin(await window.electronAPI.hasAdminPin())
+
       // Check if WiFi credentials are configured
       const ssid = await window.electronAPI.getWifiSSID?.()
       setWifiSSID(ssid)
@@ -242,6 +275,8 @@ export default function Controls() {
       console.log('Calling scanCatalog...')
       const result = await window.electronAPI.scanCatalog(catalogPath)
       console.log('Scan result:', result)
+      // Remember the folder so it's watched from now on
+      await window.electronAPI.updateSetting('catalogPath', catalogPath)
       // Refresh song count
       const count = await window.electronAPI.getCatalogCount?.() || 0
       setSongCount(count)
@@ -254,6 +289,62 @@ export default function Controls() {
     }
   }
 
+  const handleAddCatalogRoot = async () => {
+    const root = newCatalogRoot.trim()
+    if (!root || catalogRoots.includes(root)) return
+
+    const updated = [...catalogRoots, root]
+    setCatalogRoots(updated)
+    setNewCatalogRoot('')
+    await window.electronAPI?.updateSetting('catalogRoots', updated)
+  }
+
+  const handleRemoveCatalogRoot = async (root: string) => {
+    const updated = catalogRoots.filter(r => r !== root)
+    setCatalogRoots(updated)
+    await window.electronAPI?.updateSetting('catalogRoots', updated)
+  }
+
+  const handleWatchCatalogToggle = async (enabled: boolean) => {
+    setWatchCatalog(enabled)
+    await window.electronAPI?.updateSetting('watchCatalog', enabled)
+  }
+
+  const handleQueueModeChange = async (mode: 'rotation' | 'fifo') => {
+    setQueueMode(mode)
+    await window.electronAPI?.updateSetting('queueMode', mode)
+  }
+
+  const handleSaveAdminPin = async () => {
+    if (!window.electronAPI) return
+    if (adminPinInput.length < 4) {
+      setAdminPinMessage('PIN must be at least 4 characters')
+      return
+    }
+
+    try {
+      await window.electronAPI.setAdminPin(adminPinInput)
+      setHasAdminPin(true)
+      setAdminPinInput('')
+      setAdminPinMessage('PIN saved. Admin portal users will need to log in again.')
+    } catch (error) {
+      console.error('Failed to set admin PIN:', error)
+      setAdminPinMessage('Failed to save PIN')
+    }
+  }
+
+  const handleClearAdminPin = async () => {
+    if (!window.electronAPI) return
+
+    try {
+      await window.electronAPI.clearAdminPin()
+      setHasAdminPin(false)
+      setAdminPinMessage('PIN removed. The admin portal is locked until a new PIN is set.')
+    } catch (error) {
+      console.error('Failed to clear admin PIN:', error)
+    }
+  }
+
   const handleMidiOutputChange = async (output: string) => {
     if (!window.electronAPI) return
 
@@ -345,11 +436,11 @@ export default function Controls() {
               Point this to your folder containing .kar and .mid files
             </p>
 
-            {/* Scan Progress */}
-            {scanning && scanProgress && (
+            {/* Scan Progress (manual scans and background syncs from the watcher) */}
+            {scanProgress && (
               <div className="mt-4 p-4 bg-gray-800 rounded-lg">
                 <div className="flex justify-between text-sm mb-2">
-                  <span className="text-gray-400">Scanning...</span>
+                  <span className="text-gray-400">{scanning ? 'Scanning...' : 'Updating library...'}</span>
                   <span className="text-white">
                     {scanProgress.processed} / {scanProgress.total}
                   </span>
@@ -366,11 +457,71 @@ export default function Controls() {
                 <div className="flex gap-4 mt-2 text-xs">
                   <span className="text-green-400">Added: {scanProgress.added}</span>
                   <span className="text-yellow-400">Skipped: {scanProgress.skipped}</span>
+                  <span className="text-gray-400">Removed: {scanProgress.removed}</span>
                   <span className="text-red-400">Errors: {scanProgress.errors}</span>
                 </div>
               </div>
             )}
 
+            {/* Additional Folders */}
+            <div className="mt-4">
+              <label className="block text-sm text-gray-400 mb-2">
+                Additional Folders
+              </label>
+              {catalogRoots.map(root => (
+                <div key={root} className="flex items-center gap-2 mb-2">
+                  <span className="flex-1 px-3 py-1 bg-gray-800 border border-gray-700 rounded text-sm text-white truncate">
+                    {root}
+                  </span>
+                  <button
+                    onClick={() => handleRemoveCatalogRoot(root)}
+                    className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm transition-colors"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newCatalogRoot}
+                  onChange={(e) => setNewCatalogRoot(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddCatalogRoot()}
+                  className="flex-1 px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+                  placeholder="/another/karaoke/folder"
+                />
+                <button
+                  onClick={handleAddCatalogRoot}
+                  disabled={!newCatalogRoot.trim()}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:cursor-not-allowed rounded-lg transition-colors"
+                >
+                  Add
+                </button>
+              </div>
+            </div>
+
+            {/* Watch Toggle */}
+            <div className="mt-4 p-4 bg-gray-800 rounded-lg flex items-center justify-between">
+              <div>
+                <p className="text-white font-medium">Watch Folders</p>
+                <p className="text-xs text-gray-400 mt-1">
+                  Add, update and remove songs automatically when files change
+                </p>
+              </div>
+              <button
+                onClick={() => handleWatchCatalogToggle(!watchCatalog)}
+                className={`relative w-12 h-6 rounded-full transition-colors ${
+                  watchCatalog ? 'bg-indigo-600' : 'bg-gray-600'
+                } cursor-pointer`}
+              >
+                <span
+                  className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-transform ${
+                    watchCatalog ? 'translate-x-6' : ''
+                  }`}
+                />
+              </button>
+            </div>
+
             {/* Song Count */}
             {songCount > 0 && !scanning && (
               <div className="mt-4 p-3 bg-green-900/30 border border-green-800 rounded-lg flex items-center justify-between">
@@ -407,6 +558,30 @@ export default function Controls() {
         </div>
       </section>
 
+      {/* Queue Settings */}
+      <section className="mb-8">
+        <h3 className="text-lg font-medium text-gray-300 mb-4">Queue</h3>
+
+        <div>
+          <label className="block text-sm text-gray-400 mb-2">
+            Queue Order
+          </label>
+          <select
+            value={queueMode}
+            onChange={(e) => handleQueueModeChange(e.target.value as 'rotation' | 'fifo')}
+            className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+          >
+            <option value="fifo">First Come, First Served</option>
+            <option value="rotation">Singer Rotation</option>
+          </select>
+          <p className="text-xs text-gray-500 mt-2">
+            {queueMode === 'rotation'
+              ? 'Singers take turns, so one person queueing several songs doesn\'t hold up everyone else'
+              : 'Songs play in the order they were added'}
+          </p>
+        </div>
+      </section>
+
       {/* MIDI Settings */}
       <section className="mb-8">
         <h3 className="text-lg font-medium text-gray-300 mb-4">MIDI Output</h3>
@@ -766,6 +941,44 @@ export default function Controls() {
               </button>
             </div>
           </div>
+
+          {/* Admin Portal PIN */}
+          <div className="border-t border-gray-700 pt-4">
+            <p className="text-white">Admin Portal PIN</p>
+            <p className="text-xs text-gray-500 mb-3">
+              {hasAdminPin
+                ? 'The /admin page asks for this PIN before it can control playback or settings.'
+                : 'No PIN set - the /admin page stays locked until you set one.'}
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="password"
+                value={adminPinInput}
+                onChange={(e) => { setAdminPinInput(e.target.value); setAdminPinMessage(null) }}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveAdminPin()}
+                className="flex-1 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+                placeholder={hasAdminPin ? 'New PIN' : 'Choose a PIN'}
+              />
+              <button
+                onClick={handleSaveAdminPin}
+                disabled={!adminPinInput}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-700 disabled:cursor-not-allowed rounded-lg transition-colors"
+              >
+                {hasAdminPin ? 'Change' : 'Set PIN'}
+              </button>
+              {hasAdminPin && (
+                <button
+                  onClick={handleClearAdminPin}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+            {adminPinMessage && (
+              <p className="text-xs text-gray-400 mt-2">{adminPinMessage}</p>
+            )}
+          </div>
         </div>
       </section>
     </div>
@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react'
+
+interface LyricsCharsetInfo {
+  detected: string
+  override: string | null
+  options: Array<{ charset: string; label: string; sample: string }>
+}
+
+interface LyricsCharsetProps {
+  songId: number
+  title: string
+  onClose: () => void
+}
+
+export default function LyricsCharset({ songId, title, onClose }: LyricsCharsetProps) {
+  const [info, setInfo] = useState<LyricsCharsetInfo | null>(null)
+  const [selected, setSelected] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!window.electronAPI) return
+
+    setLoading(true)
+    window.electronAPI.getLyricsCharset(songId)
+      .then((result) => {
+        setInfo(result)
+        setSelected(result?.override ?? null)
+      })
+      .catch((error) => console.error('Failed to load lyrics encoding:', error))
+      .finally(() => setLoading(false))
+  }, [songId])
+
+  const handleSave = async () => {
+    if (!window.electronAPI) return
+    setSaving(true)
+    try {
+      await window.electronAPI.setLyricsCharset(songId, selected)
+      onClose()
+    } catch (error) {
+      console.error('Failed to save lyrics encoding:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const detectedLabel = info?.options.find(option => option.charset === info.detected)?.label
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 w-full max-w-lg mx-4">
+        <h3 className="text-lg font-medium text-white mb-2">Lyrics Encoding</h3>
+        <p className="text-sm text-gray-400 mb-4">{title}</p>
+
+        {loading ? (
+          <p className="text-gray-500 py-6 text-center">Reading lyrics...</p>
+        ) : !info ? (
+          <p className="text-gray-500 py-6 text-center">This song has no lyrics to decode</p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto mb-4">
+            <label className="flex items-start gap-3 p-2 bg-gray-700 rounded cursor-pointer">
+              <input
+                type="radio"
+                checked={selected === null}
+                onChange={() => setSelected(null)}
+                className="mt-1 accent-indigo-500"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white">Automatic</p>
+                <p className="text-xs text-gray-500">Detected: {detectedLabel}</p>
+              </div>
+            </label>
+            {info.options.map((option) => (
+              <label key={option.charset} className="flex items-start gap-3 p-2 bg-gray-700 rounded cursor-pointer">
+                <input
+                  type="radio"
+                  checked={selected === option.charset}
+                  onChange={() => setSelected(option.charset)}
+                  className="mt-1 accent-indigo-500"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white">{option.label}</p>
+                  <p className="text-xs text-gray-400 whitespace-pre-line">{option.sample || 'No lyrics'}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500 mb-4">
+          Pick the encoding whose sample reads correctly. It applies the next time the song plays.
+        </p>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || loading || !info}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
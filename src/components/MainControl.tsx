@@ -17,8 +17,14 @@ interface PlaybackState {
   songName: string
   artist: string
   singer: string
+  transpose?: number
+  playbackRate?: number
+  fileType?: 'midi' | 'cdg' | 'lrc' | 'video'
 }
 
+const MAX_TRANSPOSE = 12
+const PLAYBACK_RATES = [0.75, 0.8, 0.85, 0.9, 0.95, 1, 1.05, 1.1, 1.15, 1.2, 1.25]
+
 interface QueueItem {
   id: number
   song_id: number
@@ -240,6 +246,38 @@ export default function MainControl() {
           </div>
 
           <div className="flex items-center gap-4">
+            {/* Live key and speed changes (MIDI songs only) */}
+            {playbackState?.playing && (playbackState.fileType ?? 'midi') === 'midi' && (
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => window.electronAPI?.setTranspose(Math.max(-MAX_TRANSPOSE, (playbackState.transpose ?? 0) - 1))}
+                  className="w-7 h-7 flex items-center justify-center rounded-full bg-gray-700 hover:bg-gray-600 transition-colors"
+                  title="Key down"
+                >
+                  −
+                </button>
+                <span className="text-sm text-gray-300 w-14 text-center">
+                  Key {(playbackState.transpose ?? 0) > 0 ? `+${playbackState.transpose}` : playbackState.transpose ?? 0}
+                </span>
+                <button
+                  onClick={() => window.electronAPI?.setTranspose(Math.min(MAX_TRANSPOSE, (playbackState.transpose ?? 0) + 1))}
+                  className="w-7 h-7 flex items-center justify-center rounded-full bg-gray-700 hover:bg-gray-600 transition-colors"
+                  title="Key up"
+                >
+                  +
+                </button>
+                <select
+                  value={playbackState.playbackRate ?? 1}
+                  onChange={(e) => window.electronAPI?.setPlaybackRate(Number(e.target.value))}
+                  title="Playback speed"
+                  className="ml-2 px-2 py-1 text-sm bg-gray-700 border border-gray-600 rounded text-white focus:outline-none focus:border-indigo-500"
+                >
+                  {PLAYBACK_RATES.map(rate => (
+                    <option key={rate} value={rate}>{rate}×</option>
+                  ))}
+                </select>
+              </div>
+            )}
             <p className="text-sm text-gray-400">Queue: {queue.filter(q => q.status === 'pending').length} songs</p>
             <button
               onClick={() => window.electronAPI?.clearQueue()}
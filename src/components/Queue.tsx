@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react'
+import ChannelRouting from './ChannelRouting'
 
 interface QueueItem {
   id: number
@@ -8,10 +9,24 @@ interface QueueItem {
   singer_name: string
   status: 'pending' | 'playing' | 'completed' | 'skipped'
   queued_at: string
+  transpose: number
+  melody_mode: 'default' | 'piano' | 'synth' | 'mute'
+  melody_volume: number
+  position: number
+}
+
+const MELODY_LABELS: Record<QueueItem['melody_mode'], string> = {
+  default: 'Melody as arranged',
+  piano: 'Melody on piano',
+  synth: 'Melody on synth',
+  mute: 'Melody off'
 }
 
 export default function Queue() {
   const [queue, setQueue] = useState<QueueItem[]>([])
+  const [routingItem, setRoutingItem] = useState<QueueItem | null>(null)
+  const [draggedId, setDraggedId] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
 
   useEffect(() => {
     loadQueue()
@@ -45,6 +60,64 @@ export default function Queue() {
     }
   }
 
+  // toIndex is a place among the pending songs; 0 plays next
+  const moveItem = async (queueId: number, toIndex: number) => {
+    if (!window.electronAPI) return
+
+    // Show the new order straight away; the queue update that follows confirms it
+    setQueue(prev => {
+      const playing = prev.filter(item => item.status !== 'pending')
+      const pending = prev.filter(item => item.status === 'pending')
+      const fromIndex = pending.findIndex(item => item.id === queueId)
+      if (fromIndex === -1) return prev
+      const [moved] = pending.splice(fromIndex, 1)
+      pending.splice(toIndex, 0, moved)
+      return [...playing, ...pending]
+    })
+
+    try {
+      await window.electronAPI.moveQueueItem(queueId, toIndex)
+    } catch (error) {
+      console.error('Failed to move queue item:', error)
+      loadQueue()
+    }
+  }
+
+  const handleDrop = (toIndex: number) => {
+    if (draggedId !== null) {
+      const fromIndex = pendingSongs.findIndex(item => item.id === draggedId)
+      // Dropping onto a later row means "after it", which is one less once the dragged row is taken out
+      const target = fromIndex !== -1 && fromIndex < toIndex ? toIndex - 1 : toIndex
+      if (fromIndex !== target) {
+        moveItem(draggedId, target)
+      }
+    }
+    setDraggedId(null)
+    setDropIndex(null)
+  }
+
+  const setMelodyMode = async (item: QueueItem, mode: QueueItem['melody_mode']) => {
+    if (!window.electronAPI) return
+    try {
+      await window.electronAPI.setQueueItemMelodyGuide(item.id, { mode, volume: item.melody_volume })
+    } catch (error) {
+      console.error('Failed to set melody guide:', error)
+    }
+  }
+
+  const renderMelodySelect = (item: QueueItem, className: string) => (
+    <select
+      value={item.melody_mode}
+      onChange={(e) => setMelodyMode(item, e.target.value as QueueItem['melody_mode'])}
+      title="Melody guide"
+      className={className}
+    >
+      {(Object.keys(MELODY_LABELS) as QueueItem['melody_mode'][]).map(mode => (
+        <option key={mode} value={mode}>{MELODY_LABELS[mode]}</option>
+      ))}
+    </select>
+  )
+
   const currentSong = queue.find((item) => item.status === 'playing')
   const pendingSongs = queue.filter((item) => item.status === 'pending')
 
@@ -63,9 +136,18 @@ export default function Queue() {
                   Singer: <span className="font-medium">{currentSong.singer_name}</span>
                 </p>
               </div>
-              <div className="flex items-center gap-2">
-                <div className="w-4 h-4 bg-green-500 rounded-full animate-pulse"></div>
-                <span className="text-green-400">Playing</span>
+              <div className="flex items-center gap-4">
+                {renderMelodySelect(currentSong, 'px-2 py-1.5 text-sm bg-white/10 border border-white/20 rounded text-white focus:outline-none')}
+                <button
+                  onClick={() => setRoutingItem(currentSong)}
+                  className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/20 rounded transition-colors"
+                >
+                  Routing
+                </button>
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 bg-green-500 rounded-full animate-pulse"></div>
+                  <span className="text-green-400">Playing</span>
+                </div>
               </div>
             </div>
           </div>
@@ -88,7 +170,26 @@ export default function Queue() {
             {pendingSongs.map((item, index) => (
               <div
                 key={item.id}
-                className="flex items-center gap-4 p-4 bg-gray-800 rounded-lg"
+                draggable
+                onDragStart={() => setDraggedId(item.id)}
+                onDragEnd={() => { setDraggedId(null); setDropIndex(null) }}
+                onDragOver={(e) => {
+                  e.preventDefault()
+                  // Top half of a row drops before it, bottom half after it
+                  const rect = e.currentTarget.getBoundingClientRect()
+                  setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1)
+                }}
+                onDrop={(e) => {
+                  e.preventDefault()
+                  handleDrop(dropIndex ?? index)
+                }}
+                className={`flex items-center gap-4 p-4 bg-gray-800 rounded-lg cursor-move border-y-2 ${
+                  draggedId === item.id ? 'opacity-50' : ''
+                } ${
+                  draggedId !== null && dropIndex === index ? 'border-t-indigo-500' : 'border-t-transparent'
+                } ${
+                  draggedId !== null && dropIndex === index + 1 && index === pendingSongs.length - 1 ? 'border-b-indigo-500' : 'border-b-transparent'
+                }`}
               >
                 <span className="w-8 h-8 flex items-center justify-center bg-gray-700 rounded-full text-gray-400 font-medium">
                   {index + 1}
@@ -101,6 +202,54 @@ export default function Queue() {
 
                 <div className="text-right">
                   <p className="text-sm text-indigo-400">{item.singer_name}</p>
+                  {item.transpose !== 0 && (
+                    <p className="text-xs text-gray-500">
+                      Key {item.transpose > 0 ? `+${item.transpose}` : item.transpose}
+                    </p>
+                  )}
+                </div>
+
+                {renderMelodySelect(item, 'px-2 py-1.5 text-sm bg-gray-700 border border-gray-600 rounded text-gray-300 focus:outline-none focus:border-indigo-500')}
+
+                <button
+                  onClick={() => setRoutingItem(item)}
+                  className="px-3 py-1.5 text-sm text-gray-400 hover:text-white bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+                  title="Choose which channels play on the piano and synth"
+                >
+                  Routing
+                </button>
+
+                <div className="flex items-center">
+                  <button
+                    onClick={() => moveItem(item.id, 0)}
+                    disabled={index === 0}
+                    className="p-2 text-gray-500 hover:text-white disabled:text-gray-700 disabled:cursor-not-allowed transition-colors"
+                    title="Play next"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 11l7-7 7 7M5 19l7-7 7 7" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => moveItem(item.id, index - 1)}
+                    disabled={index === 0}
+                    className="p-2 text-gray-500 hover:text-white disabled:text-gray-700 disabled:cursor-not-allowed transition-colors"
+                    title="Move up"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => moveItem(item.id, index + 1)}
+                    disabled={index === pendingSongs.length - 1}
+                    className="p-2 text-gray-500 hover:text-white disabled:text-gray-700 disabled:cursor-not-allowed transition-colors"
+                    title="Move down"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </button>
                 </div>
 
                 <button
@@ -117,6 +266,14 @@ export default function Queue() {
           </div>
         )}
       </div>
+
+      {routingItem && (
+        <ChannelRouting
+          songId={routingItem.song_id}
+          title={`${routingItem.title} - ${routingItem.artist}`}
+          onClose={() => setRoutingItem(null)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react'
+
+interface SongDetailsProps {
+  song: {
+    id: number
+    title: string
+    artist: string
+    language: string
+    file_path: string
+    file_type: 'midi' | 'cdg' | 'lrc' | 'video'
+  }
+  onClose: () => void
+}
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  other: 'Other'
+}
+
+// Soft Karaoke header tags; @T lines are told apart by their order
+const HEADER_LABELS: Record<string, string> = {
+  K: 'File type',
+  V: 'Version',
+  I: 'Info',
+  L: 'Language',
+  W: 'Words'
+}
+const TITLE_LABELS = ['Title', 'Artist']
+
+function labelHeaderLines(lines: string[]): Array<{ label: string; value: string }> {
+  let titleCount = 0
+  return lines.map(line => {
+    const tag = line[1].toUpperCase()
+    const value = line.slice(2).trim()
+    if (tag === 'T') {
+      return { label: TITLE_LABELS[titleCount++] ?? 'Credits', value }
+    }
+    return { label: HEADER_LABELS[tag] ?? `@${line[1]}`, value }
+  })
+}
+
+export default function SongDetails({ song, onClose }: SongDetailsProps) {
+  const [headers, setHeaders] = useState<string[]>([])
+  const [loading, setLoading] = useState(song.file_type === 'midi')
+
+  useEffect(() => {
+    if (!window.electronAPI || song.file_type !== 'midi') return
+
+    setLoading(true)
+    window.electronAPI.getKarHeaders(song.id)
+      .then(setHeaders)
+      .catch((error) => console.error('Failed to load KAR header:', error))
+      .finally(() => setLoading(false))
+  }, [song.id, song.file_type])
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 w-full max-w-lg mx-4">
+        <h3 className="text-lg font-medium text-white mb-1">{song.title}</h3>
+        <p className="text-sm text-gray-400 mb-4">{song.artist || 'Unknown artist'}</p>
+
+        <dl className="grid grid-cols-[7rem_1fr] gap-x-3 gap-y-1 text-sm mb-4">
+          <dt className="text-gray-500">Language</dt>
+          <dd className="text-gray-200">{LANGUAGE_LABELS[song.language] ?? song.language}</dd>
+          <dt className="text-gray-500">File</dt>
+          <dd className="text-gray-200 break-all">{song.file_path}</dd>
+        </dl>
+
+        {song.file_type === 'midi' && (
+          <>
+            <h4 className="text-sm font-medium text-gray-300 mb-2">KAR Header</h4>
+            {loading ? (
+              <p className="text-gray-500 py-4 text-center text-sm">Reading header...</p>
+            ) : headers.length === 0 ? (
+              <p className="text-gray-500 py-4 text-center text-sm">This file has no KAR header</p>
+            ) : (
+              <dl className="grid grid-cols-[7rem_1fr] gap-x-3 gap-y-1 text-sm p-3 bg-gray-700 rounded max-h-64 overflow-y-auto mb-4">
+                {labelHeaderLines(headers).map(({ label, value }, index) => (
+                  <div key={index} className="contents">
+                    <dt className="text-gray-400">{label}</dt>
+                    <dd className="text-gray-200 break-words">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
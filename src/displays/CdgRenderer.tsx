@@ -13,7 +13,7 @@ const CDG_HEIGHT = 192
 
 interface CdgRendererProps {
   songId: number
-  audioPath: string
+  audioUrl: string // Served by the guest web server, which supports range requests
   playing: boolean
   paused: boolean
   onTimeUpdate?: (timeMs: number) => void
@@ -23,13 +23,13 @@ interface CdgRendererProps {
 interface CdgFrameData {
   width: number
   height: number
-  rgba: number[] // Uint8ClampedArray serialized as array
+  rgba: Uint8ClampedArray | number[]
   timestamp: number
 }
 
 export default function CdgRenderer({
   songId,
-  audioPath: _audioPath, // Used for type checking, actual audio comes from API
+  audioUrl,
   playing,
   paused,
   onTimeUpdate,
@@ -45,7 +45,7 @@ export default function CdgRenderer({
     if (!audioRef.current) return
 
     // Audio is served from the web server
-    const audioUrl = `/api/audio/${songId}`
+    setIsLoading(true)
     audioRef.current.src = audioUrl
     audioRef.current.load()
 
@@ -68,7 +68,7 @@ export default function CdgRenderer({
         audioRef.current.removeEventListener('error', handleError)
       }
     }
-  }, [songId])
+  }, [songId, audioUrl])
 
   // Handle play/pause state
   useEffect(() => {
@@ -112,7 +112,6 @@ export default function CdgRenderer({
     const ctx = canvas.getContext('2d')
     if (!ctx) return
 
-    // Convert array back to Uint8ClampedArray
     const rgba = new Uint8ClampedArray(frameData.rgba)
     const imageData = new ImageData(rgba, frameData.width, frameData.height)
 
@@ -122,30 +121,30 @@ export default function CdgRenderer({
 
   // Listen for CDG frame updates from main process
   useEffect(() => {
-    // TODO: Set up IPC listener for CDG frames
-    // For now, we'll rely on the main process to send frames
-    // The actual implementation would be:
-    //
-    // const unsubFrame = window.electronAPI?.onCdgFrame?.(renderFrame)
-    // return () => unsubFrame?.()
-    //
-    // This requires adding the IPC handler to preload.ts
-
-    // For testing, fill canvas with a placeholder
+    // Clear the canvas until the first frame arrives
     const canvas = canvasRef.current
     if (canvas) {
       const ctx = canvas.getContext('2d')
       if (ctx) {
         ctx.fillStyle = '#000'
         ctx.fillRect(0, 0, CDG_WIDTH, CDG_HEIGHT)
-        ctx.fillStyle = '#444'
-        ctx.font = '16px sans-serif'
-        ctx.textAlign = 'center'
-        ctx.fillText('CDG Display', CDG_WIDTH / 2, CDG_HEIGHT / 2)
       }
     }
+
+    const unsubFrame = window.electronAPI?.onCdgFrame(renderFrame)
+    return () => unsubFrame?.()
   }, [renderFrame])
 
+  // Follow seeks issued from the controls (main window, admin portal)
+  useEffect(() => {
+    const unsubSeek = window.electronAPI?.onCdgSeek((timeMs) => {
+      if (audioRef.current) {
+        audioRef.current.currentTime = timeMs / 1000
+      }
+    })
+    return () => unsubSeek?.()
+  }, [])
+
   return (
     <div className="cdg-renderer flex flex-col items-center justify-center h-full">
       {/* CDG Canvas - scaled up for display */}
@@ -0,0 +1,99 @@
+/**
+ * LRC Audio Component
+ *
+ * Plays the audio track of an LRC song. The lyrics themselves come from the main
+ * process like MIDI lyrics; this only reports the audio position back to it.
+ */
+
+import { useRef, useEffect, useState } from 'react'
+
+interface LrcAudioProps {
+  songId: number
+  audioUrl: string // Served by the guest web server, which supports range requests
+  playing: boolean
+  paused: boolean
+  onTimeUpdate?: (timeMs: number, durationMs: number) => void
+  onEnded?: () => void
+}
+
+export default function LrcAudio({
+  songId,
+  audioUrl,
+  playing,
+  paused,
+  onTimeUpdate,
+  onEnded
+}: LrcAudioProps) {
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  // Set up audio source
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio) return
+
+    setIsLoading(true)
+    audio.src = audioUrl
+    audio.load()
+
+    const handleCanPlay = () => setIsLoading(false)
+    const handleError = () => {
+      setIsLoading(false)
+      console.error('Failed to load LRC audio:', audioUrl)
+    }
+
+    audio.addEventListener('canplay', handleCanPlay)
+    audio.addEventListener('error', handleError)
+
+    return () => {
+      audio.removeEventListener('canplay', handleCanPlay)
+      audio.removeEventListener('error', handleError)
+    }
+  }, [songId, audioUrl])
+
+  // Handle play/pause state
+  useEffect(() => {
+    if (!audioRef.current || isLoading) return
+
+    if (playing && !paused) {
+      audioRef.current.play().catch(console.error)
+    } else {
+      audioRef.current.pause()
+    }
+  }, [playing, paused, isLoading])
+
+  // Handle audio time updates
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio) return
+
+    const handleTimeUpdate = () => {
+      const durationMs = Number.isFinite(audio.duration) ? audio.duration * 1000 : 0
+      onTimeUpdate?.(audio.currentTime * 1000, durationMs)
+    }
+
+    const handleEnded = () => {
+      onEnded?.()
+    }
+
+    audio.addEventListener('timeupdate', handleTimeUpdate)
+    audio.addEventListener('ended', handleEnded)
+
+    return () => {
+      audio.removeEventListener('timeupdate', handleTimeUpdate)
+      audio.removeEventListener('ended', handleEnded)
+    }
+  }, [onTimeUpdate, onEnded])
+
+  // Follow seeks issued from the controls (main window, admin portal)
+  useEffect(() => {
+    const unsubSeek = window.electronAPI?.onLrcSeek((timeMs) => {
+      if (audioRef.current) {
+        audioRef.current.currentTime = timeMs / 1000
+      }
+    })
+    return () => unsubSeek?.()
+  }, [])
+
+  return <audio ref={audioRef} preload="auto" />
+}
@@ -1,6 +1,8 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import BackgroundRenderer, { BackgroundType } from '../backgrounds/BackgroundRenderer'
 import CdgRenderer from './CdgRenderer'
+import LrcAudio from './LrcAudio'
+import VideoRenderer from './VideoRenderer'
 
 interface LyricSyllable {
   text: string
@@ -24,8 +26,10 @@ interface PlaybackState {
   artist: string
   singer: string
   videoUrl?: string | null
-  fileType?: 'midi' | 'cdg'
+  fileType?: 'midi' | 'cdg' | 'lrc' | 'video'
   audioPath?: string | null
+  audioUrl?: string | null
+  videoFileUrl?: string | null
   songId?: number
 }
 
@@ -224,6 +228,37 @@ export default function LyricsDisplay() {
     }
   }, [])
 
+  // CDG songs: the audio element drives the CDG player in the main process
+  const handleCdgTimeUpdate = useCallback((timeMs: number) => {
+    window.electronAPI?.syncCdgTime(timeMs)
+  }, [])
+
+  const handleCdgEnded = useCallback(() => {
+    window.electronAPI?.cdgAudioEnded()
+  }, [])
+
+  // LRC songs: the same, with the lyrics shown as text like MIDI lyrics
+  const handleLrcTimeUpdate = useCallback((timeMs: number, durationMs: number) => {
+    window.electronAPI?.syncLrcTime(timeMs, durationMs)
+  }, [])
+
+  const handleLrcEnded = useCallback(() => {
+    window.electronAPI?.lrcAudioEnded()
+  }, [])
+
+  // Video songs: the video element drives the video player in the main process
+  const handleVideoTimeUpdate = useCallback((timeMs: number, durationMs: number) => {
+    window.electronAPI?.syncVideoTime(timeMs, durationMs)
+  }, [])
+
+  const handleVideoEnded = useCallback(() => {
+    window.electronAPI?.videoEnded()
+  }, [])
+
+  const handleVideoError = useCallback((message: string) => {
+    window.electronAPI?.videoError(message)
+  }, [])
+
   // Scroll to keep current line centered
   useEffect(() => {
     if (containerRef.current && currentLineIndex >= 0) {
@@ -350,6 +385,19 @@ export default function LyricsDisplay() {
         <div className="absolute inset-0 bg-black/40" style={{ zIndex: 1 }} />
       )}
 
+      {/* Video songs cover the whole window; their lyrics are in the picture */}
+      {playbackState.fileType === 'video' && playbackState.songId && playbackState.videoFileUrl && (
+        <VideoRenderer
+          songId={playbackState.songId}
+          videoUrl={playbackState.videoFileUrl}
+          playing={playbackState.playing}
+          paused={playbackState.paused}
+          onTimeUpdate={handleVideoTimeUpdate}
+          onEnded={handleVideoEnded}
+          onError={handleVideoError}
+        />
+      )}
+
       {/* Header with song info */}
       <div className="absolute top-0 left-0 right-0 p-6 bg-gradient-to-b from-black/80 to-transparent z-20">
         <div className="flex items-center justify-between">
@@ -396,16 +444,28 @@ export default function LyricsDisplay() {
         ref={containerRef}
         className="flex-1 flex flex-col items-center justify-center py-32 px-8 relative z-10"
       >
-        {playbackState.fileType === 'cdg' && playbackState.songId && playbackState.audioPath ? (
+        {playbackState.fileType === 'lrc' && playbackState.songId && playbackState.audioUrl && (
+          <LrcAudio
+            songId={playbackState.songId}
+            audioUrl={playbackState.audioUrl}
+            playing={playbackState.playing}
+            paused={playbackState.paused}
+            onTimeUpdate={handleLrcTimeUpdate}
+            onEnded={handleLrcEnded}
+          />
+        )}
+        {playbackState.fileType === 'cdg' && playbackState.songId && playbackState.audioUrl ? (
           // CDG mode: render graphics from CDG file with audio
           <CdgRenderer
             songId={playbackState.songId}
-            audioPath={playbackState.audioPath}
+            audioUrl={playbackState.audioUrl}
             playing={playbackState.playing}
             paused={playbackState.paused}
+            onTimeUpdate={handleCdgTimeUpdate}
+            onEnded={handleCdgEnded}
           />
         ) : lyrics.length > 0 ? (
-          // MIDI mode: show text lyrics
+          // MIDI and LRC mode: show text lyrics
           // Show only 5 lines: 2 previous, current, 2 next
           lyrics
             .map((line, index) => ({ line, index }))
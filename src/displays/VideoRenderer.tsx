@@ -0,0 +1,125 @@
+/**
+ * Video Renderer Component
+ *
+ * Plays a karaoke video (lyrics burned into the picture) full screen.
+ * The video element is the clock; its time is reported to the main process.
+ */
+
+import { useRef, useEffect, useState } from 'react'
+
+interface VideoRendererProps {
+  songId: number
+  videoUrl: string // Served by the guest web server, which supports range requests
+  playing: boolean
+  paused: boolean
+  onTimeUpdate?: (timeMs: number, durationMs: number) => void
+  onEnded?: () => void
+  onError?: (message: string) => void
+}
+
+export default function VideoRenderer({
+  songId,
+  videoUrl,
+  playing,
+  paused,
+  onTimeUpdate,
+  onEnded,
+  onError
+}: VideoRendererProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Set up video source
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) return
+
+    setIsLoading(true)
+    video.src = videoUrl
+    video.load()
+
+    const handleCanPlay = () => {
+      setIsLoading(false)
+      setError(null)
+    }
+
+    const handleError = () => {
+      setIsLoading(false)
+      setError('Failed to load video')
+      onError?.(video.error?.message || `Media error ${video.error?.code ?? 'unknown'}`)
+    }
+
+    video.addEventListener('canplay', handleCanPlay)
+    video.addEventListener('error', handleError)
+
+    return () => {
+      video.removeEventListener('canplay', handleCanPlay)
+      video.removeEventListener('error', handleError)
+    }
+  }, [songId, videoUrl, onError])
+
+  // Handle play/pause state
+  useEffect(() => {
+    if (!videoRef.current || isLoading) return
+
+    if (playing && !paused) {
+      videoRef.current.play().catch(console.error)
+    } else {
+      videoRef.current.pause()
+    }
+  }, [playing, paused, isLoading])
+
+  // Handle video time updates
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) return
+
+    const handleTimeUpdate = () => {
+      const durationMs = Number.isFinite(video.duration) ? video.duration * 1000 : 0
+      onTimeUpdate?.(video.currentTime * 1000, durationMs)
+    }
+
+    const handleEnded = () => {
+      onEnded?.()
+    }
+
+    video.addEventListener('timeupdate', handleTimeUpdate)
+    video.addEventListener('ended', handleEnded)
+
+    return () => {
+      video.removeEventListener('timeupdate', handleTimeUpdate)
+      video.removeEventListener('ended', handleEnded)
+    }
+  }, [onTimeUpdate, onEnded])
+
+  // Follow seeks issued from the controls (main window, admin portal)
+  useEffect(() => {
+    const unsubSeek = window.electronAPI?.onVideoSeek((timeMs) => {
+      if (videoRef.current) {
+        videoRef.current.currentTime = timeMs / 1000
+      }
+    })
+    return () => unsubSeek?.()
+  }, [])
+
+  return (
+    <div className="absolute inset-0 bg-black flex items-center justify-center z-30">
+      <video ref={videoRef} preload="auto" className="w-full h-full object-contain" />
+
+      {/* Loading overlay */}
+      {isLoading && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+          <div className="text-white text-lg">Loading...</div>
+        </div>
+      )}
+
+      {/* Error overlay */}
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+          <div className="text-red-400 text-lg">{error}</div>
+        </div>
+      )}
+    </div>
+  )
+}
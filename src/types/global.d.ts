@@ -1,5 +1,21 @@
 // Global type declarations for Electron API exposed via preload script
 
+interface ChannelRoute {
+  target: 'piano' | 'synth' | 'both' | 'mute'
+  outputChannel: number
+}
+
+interface MelodyGuide {
+  mode: 'default' | 'piano' | 'synth' | 'mute'
+  volume: number
+}
+
+interface LyricsCharsetInfo {
+  detected: string
+  override: string | null
+  options: Array<{ charset: string; label: string; sample: string }>
+}
+
 interface ElectronAPI {
   // Window management
   openLyricsWindow: () => Promise<boolean>
@@ -14,10 +30,13 @@ interface ElectronAPI {
   cleanupCatalog: () => Promise<{ removed: number; checked: number }>
   reloadDatabase: () => Promise<{ success: boolean }>
   onScanProgress: (callback: (progress: unknown) => void) => () => void
+  onScanComplete: (callback: (result: unknown) => void) => () => void
 
   // Queue operations
-  addToQueue: (songId: number, singerName: string) => Promise<void>
+  addToQueue: (songId: number, singerName: string, transpose?: number, melodyGuide?: MelodyGuide) => Promise<void>
+  setQueueItemMelodyGuide: (queueId: number, guide: MelodyGuide) => Promise<void>
   removeFromQueue: (queueId: number) => Promise<void>
+  moveQueueItem: (queueId: number, toIndex: number) => Promise<boolean>
   getQueue: () => Promise<unknown[]>
   skipCurrent: () => Promise<void>
   clearQueue: () => Promise<void>
@@ -28,6 +47,8 @@ interface ElectronAPI {
   stop: () => Promise<void>
   getPlaybackState: () => Promise<unknown>
   seek: (timeMs: number) => Promise<unknown>
+  setTranspose: (semitones: number) => Promise<unknown>
+  setPlaybackRate: (rate: number) => Promise<unknown>
 
   // MIDI operations
   getMidiOutputs: () => Promise<Array<{ name: string; id: string }>>
@@ -50,6 +71,19 @@ interface ElectronAPI {
   onNoteOff: (callback: (data: { channel: number; note: number }) => void) => () => void
   onAllNotesOff: (callback: () => void) => () => void
 
+  // CDG playback
+  onCdgFrame: (callback: (frame: { width: number; height: number; rgba: Uint8ClampedArray; timestamp: number }) => void) => () => void
+  onCdgSeek: (callback: (timeMs: number) => void) => () => void
+  syncCdgTime: (audioTimeMs: number) => Promise<void>
+  cdgAudioEnded: () => Promise<void>
+  onLrcSeek: (callback: (timeMs: number) => void) => () => void
+  syncLrcTime: (audioTimeMs: number, durationMs?: number) => Promise<void>
+  lrcAudioEnded: () => Promise<void>
+  onVideoSeek: (callback: (timeMs: number) => void) => () => void
+  syncVideoTime: (videoTimeMs: number, durationMs?: number) => Promise<void>
+  videoEnded: () => Promise<void>
+  videoError: (message: string) => Promise<void>
+
   // Guest web app
   getQRCode: () => Promise<string | null>
   getWifiQRCode: () => Promise<string | null>
@@ -57,6 +91,12 @@ interface ElectronAPI {
 
   // Settings sync across windows
   updateSetting: (key: string, value: unknown) => Promise<boolean>
+  getSetting: (key: string) => Promise<unknown>
+
+  // Admin portal PIN
+  hasAdminPin: () => Promise<boolean>
+  setAdminPin: (pin: string) => Promise<boolean>
+  clearAdminPin: () => Promise<boolean>
   onSettingsChanged: (callback: (data: { key: string; value: unknown }) => void) => () => void
 
   // Soundfont management
@@ -66,6 +106,23 @@ interface ElectronAPI {
   updateSongVideoUrl: (songId: number, videoUrl: string | null) => Promise<boolean>
   getSongVideoUrl: (songId: number) => Promise<string | null>
 
+  // Channel routing
+  getChannelRouting: (songId: number) => Promise<Array<{
+    channel: number
+    instrument: string
+    noteCount: number
+    defaultRoute: ChannelRoute
+    override: ChannelRoute | null
+  }>>
+  setChannelRouting: (songId: number, routing: Record<number, ChannelRoute>) => Promise<Record<number, ChannelRoute>>
+
+  // KAR header
+  getKarHeaders: (songId: number) => Promise<string[]>
+
+  // Lyrics encoding
+  getLyricsCharset: (songId: number) => Promise<LyricsCharsetInfo | null>
+  setLyricsCharset: (songId: number, charset: string | null) => Promise<boolean>
+
   // File dialogs
   selectVideoFile: () => Promise<string | null>
 }
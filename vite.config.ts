@@ -23,6 +23,15 @@ export default defineConfig({
           }
         }
       },
+      {
+        // Renders guest previews off the main process's event loop (electron/web/preview.ts)
+        entry: 'electron/web/preview-worker.ts',
+        vite: {
+          build: {
+            outDir: 'dist-electron'
+          }
+        }
+      },
       {
         entry: 'electron/preload.ts',
         onstart(args) {
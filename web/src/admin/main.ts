@@ -0,0 +1,599 @@
+import type { PublicQueueItem } from '../../../electron/web/protocol'
+import { KaraokeSocket } from '../shared/socket'
+import { byId, escapeHtml, exposeHandlers, showToast } from '../shared/dom'
+
+// Largest key change (matches MAX_TRANSPOSE in electron/midi/player.ts)
+const MAX_TRANSPOSE = 12
+
+// Playback state as sent by the karaoke app
+interface PlaybackState {
+  playing: boolean
+  paused: boolean
+  currentTime: number
+  duration: number
+  transpose?: number
+  playbackRate?: number
+  songName?: string
+  singer?: string
+}
+
+const STOPPED: PlaybackState = { playing: false, paused: false, currentTime: 0, duration: 0 }
+
+let adminToken = localStorage.getItem('adminToken')
+let settings: Record<string, unknown> = {}
+const debounceTimers: Record<string, number> = {}
+let playbackState: PlaybackState = STOPPED
+let queue: PublicQueueItem[] = []
+let approvals: PublicQueueItem[] = []
+
+// WebSocket connection for real-time sync (only reconnects while logged in)
+const socket = new KaraokeSocket({
+  getToken: () => adminToken,
+  shouldReconnect: () => !!adminToken,
+  onStatusChange: (connected) => {
+    byId('connectionDot').classList.toggle('connected', connected)
+    byId('connectionText').textContent = connected ? 'Connected' : 'Disconnected'
+  },
+  onMessage: (msg) => {
+    if (msg.type === 'error') {
+      if (msg.code === 'forbidden') {
+        // Admin session expired or the PIN was changed
+        showLogin()
+      } else if (msg.id === null) {
+        console.error('Server error:', msg.message)
+      }
+    } else if (msg.type === 'snapshot') {
+      queue = msg.queue || []
+      approvals = msg.approvals || []
+      playbackState = (msg.playback as PlaybackState | null) || STOPPED
+      Object.entries(msg.settings || {}).forEach(([key, value]) => {
+        settings[key] = value
+        updateFieldValue(key, value)
+      })
+      renderQueue()
+      renderApprovals()
+      updateNowPlaying()
+      updateProgress()
+    } else if (msg.type === 'settings') {
+      settings[msg.key] = msg.value
+      updateFieldValue(msg.key, msg.value)
+    } else if (msg.type === 'queue') {
+      queue = msg.data || []
+      renderQueue()
+      updateNowPlaying()
+    } else if (msg.type === 'approvals') {
+      approvals = msg.data || []
+      renderApprovals()
+    } else if (msg.type === 'playback') {
+      playbackState = (msg.data as PlaybackState | null) || STOPPED
+      updateNowPlaying()
+      updateProgress()
+    }
+  }
+})
+
+// Admin API calls carry the session token; a 401 means it expired or the PIN was changed
+async function adminFetch(url: string, options: RequestInit = {}): Promise<Response> {
+  const res = await fetch(url, {
+    ...options,
+    headers: { ...options.headers, 'Authorization': 'Bearer ' + adminToken }
+  })
+  if (res.status === 401) showLogin()
+  return res
+}
+
+function showLogin() {
+  adminToken = null
+  localStorage.removeItem('adminToken')
+  socket.close()
+  byId('loginOverlay').classList.add('active')
+  byId('pinInput').focus()
+}
+
+async function login(event: Event) {
+  event.preventDefault()
+  const pinInput = byId<HTMLInputElement>('pinInput')
+  const errorEl = byId('loginError')
+  errorEl.textContent = ''
+  try {
+    const res = await fetch('/api/admin/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ pin: pinInput.value })
+    })
+    const data = await res.json() as { token?: string; error?: string }
+    if (!res.ok || !data.token) {
+      errorEl.textContent = data.error || 'Login failed'
+      return
+    }
+    adminToken = data.token
+    localStorage.setItem('adminToken', adminToken)
+    pinInput.value = ''
+    byId('loginOverlay').classList.remove('active')
+    startPortal()
+  } catch (e) {
+    errorEl.textContent = 'Could not reach the karaoke app'
+  }
+}
+
+async function logout() {
+  try {
+    await adminFetch('/api/admin/logout', { method: 'POST' })
+  } catch (e) {
+    // Logging out locally is enough
+  }
+  showLogin()
+}
+
+// Playback control functions
+async function togglePlayPause() {
+  try {
+    await socket.sendCommand(playbackState.playing && !playbackState.paused ? 'pause' : 'play', {})
+  } catch (e) {
+    showToast('Playback control failed', true)
+  }
+}
+
+async function stopPlayback() {
+  try {
+    await socket.sendCommand('stop', {})
+    showToast('Stopped')
+  } catch (e) {
+    showToast('Stop failed', true)
+  }
+}
+
+async function skipSong() {
+  try {
+    await socket.sendCommand('skip', {})
+    showToast('Skipped')
+  } catch (e) {
+    showToast('Skip failed', true)
+  }
+}
+
+function seekTo(event: MouseEvent) {
+  const rect = byId('progressBar').getBoundingClientRect()
+  const percent = (event.clientX - rect.left) / rect.width
+  const timeMs = percent * playbackState.duration
+
+  socket.sendCommand('seek', { timeMs }).catch(() => showToast('Seek failed', true))
+}
+
+function formatKey(semitones: number | undefined): string {
+  return 'Key ' + (semitones && semitones > 0 ? '+' + semitones : String(semitones || 0))
+}
+
+function clampKey(semitones: number): number {
+  return Math.max(-MAX_TRANSPOSE, Math.min(MAX_TRANSPOSE, semitones))
+}
+
+async function changePlayingKey(delta: number) {
+  try {
+    await socket.sendCommand('setTranspose', { semitones: clampKey((playbackState.transpose || 0) + delta) })
+  } catch (e) {
+    showToast('Key change failed', true)
+  }
+}
+
+async function changePlaybackRate(value: string) {
+  try {
+    await socket.sendCommand('setRate', { rate: parseFloat(value) })
+  } catch (e) {
+    showToast('Speed change failed', true)
+  }
+}
+
+async function changeQueueItemKey(queueId: number, delta: number) {
+  const item = queue.find(q => q.id === queueId)
+  if (!item) return
+  try {
+    await socket.sendCommand('setQueueItemTranspose', { queueId, semitones: clampKey((item.transpose || 0) + delta) })
+  } catch (e) {
+    showToast('Key change failed', true)
+  }
+}
+
+async function moveQueueItem(queueId: number, index: number) {
+  try {
+    await socket.sendCommand('moveQueueItem', { queueId, index })
+  } catch (e) {
+    showToast('Move failed', true)
+  }
+}
+
+async function removeFromQueue(queueId: number) {
+  try {
+    await socket.sendCommand('removeFromQueue', { queueId })
+    showToast('Removed from queue')
+  } catch (e) {
+    showToast('Remove failed', true)
+  }
+}
+
+function formatTime(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  const mins = Math.floor(seconds / 60)
+  const secs = seconds % 60
+  return mins + ':' + secs.toString().padStart(2, '0')
+}
+
+function setPlayButton(playing: boolean) {
+  const playBtn = byId('playPauseBtn')
+  playBtn.textContent = playing ? '⏸' : '▶'
+  playBtn.classList.toggle('pause', playing)
+  playBtn.classList.toggle('play', !playing)
+}
+
+function updateNowPlaying() {
+  const playingItem = queue.find(q => q.status === 'playing')
+  const titleEl = byId('nowPlayingTitle')
+  const singerEl = byId('nowPlayingSinger')
+  const statusEl = byId('nowPlayingStatus')
+  byId('nowPlayingKey').textContent = formatKey(playbackState.transpose)
+  byId<HTMLSelectElement>('playbackRate').value = String(playbackState.playbackRate || 1)
+
+  // Use playbackState to determine if something is actually playing
+  const isPlaying = playbackState.playing && !playbackState.paused
+  const isPaused = playbackState.playing && playbackState.paused
+
+  if (playingItem || playbackState.playing) {
+    titleEl.textContent = playingItem?.title || playbackState.songName || 'Unknown Song'
+    const singer = playingItem?.singer_name || playbackState.singer
+    singerEl.textContent = singer ? 'Singing: ' + singer : ''
+    statusEl.textContent = isPaused ? 'Paused' : isPlaying ? 'Playing' : 'Stopped'
+  } else {
+    titleEl.textContent = 'No song playing'
+    singerEl.textContent = ''
+    statusEl.textContent = 'Stopped'
+  }
+  setPlayButton(isPlaying)
+}
+
+function updateProgress() {
+  const percent = playbackState.duration > 0
+    ? (playbackState.currentTime / playbackState.duration) * 100
+    : 0
+  byId('progressFill').style.width = percent + '%'
+  byId('currentTime').textContent = formatTime(playbackState.currentTime)
+  byId('totalTime').textContent = formatTime(playbackState.duration)
+}
+
+function renderQueue() {
+  const list = byId('queueList')
+  const activeItems = queue.filter(q => q.status === 'playing' || q.status === 'pending')
+
+  if (activeItems.length === 0) {
+    list.innerHTML = '<div class="empty-queue">Queue is empty</div>'
+    return
+  }
+
+  const pendingItems = activeItems.filter(q => q.status === 'pending')
+
+  list.innerHTML = activeItems.map(item => {
+    const index = pendingItems.indexOf(item)
+    const isPending = index !== -1
+    return '<div class="queue-item ' + (item.status === 'playing' ? 'playing' : '') + '"' +
+      (isPending ? ' draggable="true" data-queue-id="' + item.id + '" data-index="' + index + '"' : '') + '>' +
+      '<div class="queue-info">' +
+        '<div class="queue-title">' + escapeHtml(item.title) + '</div>' +
+        '<div class="queue-singer">' + escapeHtml(item.singer_name) + '</div>' +
+      '</div>' +
+      (isPending ?
+        '<div class="move-controls">' +
+          '<button class="key-btn" onclick="moveQueueItem(' + item.id + ', 0)" title="Play next"' + (index === 0 ? ' disabled' : '') + '>⤒</button>' +
+          '<button class="key-btn" onclick="moveQueueItem(' + item.id + ', ' + (index - 1) + ')" title="Move up"' + (index === 0 ? ' disabled' : '') + '>▲</button>' +
+          '<button class="key-btn" onclick="moveQueueItem(' + item.id + ', ' + (index + 1) + ')" title="Move down"' + (index === pendingItems.length - 1 ? ' disabled' : '') + '>▼</button>' +
+        '</div>'
+        : '') +
+      '<div class="key-controls">' +
+        '<button class="key-btn" onclick="changeQueueItemKey(' + item.id + ', -1)" title="Key down">−</button>' +
+        '<span>' + formatKey(item.transpose) + '</span>' +
+        '<button class="key-btn" onclick="changeQueueItemKey(' + item.id + ', 1)" title="Key up">+</button>' +
+      '</div>' +
+      (isPending ?
+        '<button class="remove-btn" onclick="removeFromQueue(' + item.id + ')" title="Remove">×</button>'
+        : '') +
+    '</div>'
+  }).join('')
+
+  setupQueueDragAndDrop(list)
+}
+
+function renderApprovals() {
+  byId('approvalSection').style.display = approvals.length > 0 ? 'block' : 'none'
+  byId('approvalList').innerHTML = approvals.map(item =>
+    '<div class="queue-item">' +
+      '<div class="queue-info">' +
+        '<div class="queue-title">' + escapeHtml(item.title) + '</div>' +
+        '<div class="queue-singer">' + escapeHtml(item.singer_name) + '</div>' +
+      '</div>' +
+      '<div class="move-controls">' +
+        '<button class="key-btn" onclick="reviewRequest(' + item.id + ', true)" title="Approve">✓</button>' +
+        '<button class="key-btn" onclick="reviewRequest(' + item.id + ', false)" title="Reject">×</button>' +
+      '</div>' +
+    '</div>'
+  ).join('')
+}
+
+async function reviewRequest(queueId: number, approve: boolean) {
+  try {
+    await socket.sendCommand(approve ? 'approveRequest' : 'rejectRequest', { queueId })
+    showToast(approve ? 'Added to queue' : 'Request rejected')
+  } catch (e) {
+    showToast(approve ? 'Approve failed' : 'Reject failed', true)
+  }
+}
+
+// Drag a pending song onto another: top half drops before it, bottom half after it
+function setupQueueDragAndDrop(list: HTMLElement) {
+  let draggedId: number | null = null
+  const rows = list.querySelectorAll<HTMLElement>('.queue-item[draggable="true"]')
+
+  const clearMarkers = () => rows.forEach(row => row.classList.remove('drop-before', 'drop-after'))
+
+  rows.forEach(row => {
+    row.addEventListener('dragstart', (e) => {
+      draggedId = parseInt(row.dataset.queueId!)
+      row.classList.add('dragging')
+      if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move'
+    })
+    row.addEventListener('dragend', () => {
+      draggedId = null
+      row.classList.remove('dragging')
+      clearMarkers()
+    })
+    row.addEventListener('dragover', (e) => {
+      e.preventDefault()
+      const rect = row.getBoundingClientRect()
+      const before = e.clientY < rect.top + rect.height / 2
+      clearMarkers()
+      row.classList.add(before ? 'drop-before' : 'drop-after')
+    })
+    row.addEventListener('drop', (e) => {
+      e.preventDefault()
+      if (draggedId === null) return
+      const rect = row.getBoundingClientRect()
+      const fromIndex = pendingIndexOf(draggedId)
+      let toIndex = parseInt(row.dataset.index!) + (e.clientY < rect.top + rect.height / 2 ? 0 : 1)
+      // Taking the dragged row out first shifts later places up by one
+      if (fromIndex < toIndex) toIndex--
+      if (fromIndex !== toIndex) moveQueueItem(draggedId, toIndex)
+      clearMarkers()
+    })
+  })
+}
+
+function pendingIndexOf(queueId: number): number {
+  return queue.filter(q => q.status === 'pending').findIndex(q => q.id === queueId)
+}
+
+// Load initial data
+async function loadSettings() {
+  try {
+    const res = await adminFetch('/api/admin/settings')
+    settings = await res.json()
+    Object.entries(settings).forEach(([key, value]) => {
+      updateFieldValue(key, value)
+    })
+  } catch (e) {
+    console.error('Failed to load settings:', e)
+  }
+}
+
+async function loadMidiOutputs() {
+  try {
+    const res = await adminFetch('/api/admin/midi-outputs')
+    const outputs = await res.json() as { name: string }[]
+    const select = byId<HTMLSelectElement>('midiOutputName')
+    select.innerHTML = '<option value="">None (Software Synth)</option>'
+    outputs.forEach(output => {
+      const opt = document.createElement('option')
+      opt.value = output.name
+      opt.textContent = output.name
+      select.appendChild(opt)
+    })
+    // Restore selection
+    if (settings.midiOutputName) {
+      select.value = String(settings.midiOutputName)
+    }
+  } catch (e) {
+    console.error('Failed to load MIDI outputs:', e)
+  }
+}
+
+async function loadSoundfonts() {
+  try {
+    const res = await adminFetch('/api/admin/soundfonts')
+    const soundfonts = await res.json() as { id: string; name: string; type: string }[]
+    const select = byId<HTMLSelectElement>('soundfontId')
+    select.innerHTML = ''
+    soundfonts.forEach(sf => {
+      const opt = document.createElement('option')
+      opt.value = sf.id
+      opt.textContent = sf.name + (sf.type === 'cdn' ? ' (CDN)' : ' (Local)')
+      select.appendChild(opt)
+    })
+    // Restore selection
+    if (settings.soundfontId) {
+      select.value = String(settings.soundfontId)
+    }
+  } catch (e) {
+    console.error('Failed to load soundfonts:', e)
+  }
+}
+
+async function loadCatalogStats() {
+  try {
+    const res = await adminFetch('/api/admin/catalog/stats')
+    const stats = await res.json() as { songCount: number }
+    byId('songCount').textContent = stats.songCount.toLocaleString()
+  } catch (e) {
+    console.error('Failed to load catalog stats:', e)
+  }
+}
+
+// Profiles with a PIN; resetting one lets the name sign in alone again
+async function loadSingerPins() {
+  try {
+    const res = await adminFetch('/api/admin/singers')
+    const singers = await res.json() as { id: number; name: string }[]
+    byId('singerPinList').innerHTML = singers.length === 0
+      ? '<div class="empty-queue">No singer has set a PIN</div>'
+      : singers.map(singer =>
+        '<div class="queue-item">' +
+          '<div class="queue-info">' +
+            '<div class="queue-title">' + escapeHtml(singer.name) + '</div>' +
+          '</div>' +
+          '<button class="btn btn-secondary btn-small" onclick="resetSingerPin(' + singer.id + ')">Reset PIN</button>' +
+        '</div>'
+      ).join('')
+  } catch (e) {
+    console.error('Failed to load singer PINs:', e)
+  }
+}
+
+async function resetSingerPin(singerId: number) {
+  if (!confirm('Remove this singer\'s PIN and sign them out?')) return
+
+  try {
+    const res = await adminFetch('/api/admin/singers/' + singerId + '/pin', { method: 'DELETE' })
+    if (!res.ok) throw new Error('Reset failed')
+    showToast('PIN removed')
+    loadSingerPins()
+  } catch (e) {
+    showToast('Reset failed', true)
+  }
+}
+
+function updateFieldValue(key: string, value: unknown) {
+  const el = document.getElementById(key) as HTMLInputElement | HTMLSelectElement | null
+  if (!el) return
+
+  if (el instanceof HTMLInputElement && el.type === 'checkbox') {
+    el.checked = !!value
+  } else {
+    el.value = value == null ? '' : String(value)
+  }
+
+  // Show/hide video path field
+  if (key === 'backgroundType') {
+    byId('videoPathGroup').style.display = value === 'video' ? 'block' : 'none'
+  }
+}
+
+// Save setting with debounce
+function saveSetting(key: string, value: unknown) {
+  clearTimeout(debounceTimers[key])
+  debounceTimers[key] = window.setTimeout(async () => {
+    try {
+      await socket.sendCommand('setSetting', { key, value })
+      settings[key] = value
+      showToast('Saved!')
+    } catch (e) {
+      console.error('Failed to save:', e)
+      showToast('Save failed', true)
+    }
+  }, 300)
+}
+
+// Event listeners for all settings fields
+function setupEventListeners() {
+  // Select fields
+  ['soundfontId', 'midiOutputName', 'lyricsMode', 'backgroundType', 'queueMode'].forEach(id => {
+    const el = document.getElementById(id) as HTMLSelectElement | null
+    el?.addEventListener('change', () => {
+      const value = el.value
+      saveSetting(id, value)
+
+      // Show/hide video path
+      if (id === 'backgroundType') {
+        byId('videoPathGroup').style.display = value === 'video' ? 'block' : 'none'
+      }
+    })
+  });
+
+  // Number/text fields
+  ['midiDelayMs', 'backgroundVideoPath', 'catalogPath',
+    'guestMaxPending', 'guestCooldownSeconds', 'guestRecentPlayMinutes'].forEach(id => {
+    const el = document.getElementById(id) as HTMLInputElement | null
+    el?.addEventListener('input', () => {
+      saveSetting(id, el.type === 'number' ? parseInt(el.value) || 0 : el.value)
+    })
+  });
+
+  // Toggle switches
+  ['youtubeBackgroundEnabled', 'showWifiQR', 'guestBlockDuplicates', 'guestRequireApproval'].forEach(id => {
+    const el = document.getElementById(id) as HTMLInputElement | null
+    el?.addEventListener('change', () => {
+      saveSetting(id, el.checked)
+    })
+  })
+}
+
+async function reloadDatabase() {
+  try {
+    const res = await adminFetch('/api/admin/catalog/reload', { method: 'POST' })
+    if (res.ok) {
+      showToast('Database reloaded')
+      loadCatalogStats()
+    } else {
+      showToast('Reload failed', true)
+    }
+  } catch (e) {
+    showToast('Reload failed', true)
+  }
+}
+
+async function cleanupCatalog() {
+  if (!confirm('Remove songs with missing files from the catalog?')) return
+
+  try {
+    const res = await adminFetch('/api/admin/catalog/cleanup', { method: 'POST' })
+    const result = await res.json() as { removed: number }
+    showToast('Removed ' + result.removed + ' missing songs')
+    loadCatalogStats()
+  } catch (e) {
+    showToast('Cleanup failed', true)
+  }
+}
+
+exposeHandlers({
+  login,
+  logout,
+  togglePlayPause,
+  stopPlayback,
+  skipSong,
+  seekTo,
+  changePlayingKey,
+  changePlaybackRate,
+  changeQueueItemKey,
+  moveQueueItem,
+  removeFromQueue,
+  reviewRequest,
+  resetSingerPin,
+  reloadDatabase,
+  cleanupCatalog
+})
+
+// Initialize once logged in (queue, playback and approvals arrive in the WebSocket snapshot)
+let listenersReady = false
+function startPortal() {
+  socket.connect()
+  loadSettings().then(() => {
+    loadMidiOutputs()
+    loadSoundfonts()
+    loadCatalogStats()
+    loadSingerPins()
+    if (!listenersReady) {
+      setupEventListeners()
+      listenersReady = true
+    }
+  })
+}
+
+if (adminToken) {
+  startPortal()
+} else {
+  showLogin()
+}
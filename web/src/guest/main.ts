@@ -0,0 +1,554 @@
+import type { Song, SungSong } from '../../../electron/catalog/database'
+import type { PublicQueueItem } from '../../../electron/web/protocol'
+import { KaraokeSocket } from '../shared/socket'
+import { byId, escapeHtml, exposeHandlers, showToast } from '../shared/dom'
+import { togglePreview, warmUpAudio } from './preview'
+
+// Largest key change a singer can request (matches MAX_TRANSPOSE in electron/midi/player.ts)
+const MAX_TRANSPOSE = 12
+
+let selectedSong: { id: number; title: string } | null = null
+let selectedTranspose = 0
+let currentLanguage = ''
+let filterLyrics = false
+let filterVideo = false
+
+// Songs currently shown, so handlers can look them up by id
+const shownSongs: Map<number, Song> = new Map()
+
+const socket = new KaraokeSocket({
+  onMessage: (msg) => {
+    if (msg.type === 'snapshot') {
+      renderQueue(msg.queue)
+      loadMySongs()
+    } else if (msg.type === 'queue') {
+      renderQueue(msg.data)
+      loadMySongs()
+    }
+  }
+})
+
+// Guest session: a token issued once per phone that marks which requests are ours
+let sessionToken = localStorage.getItem('guestSession')
+let mySongs: PublicQueueItem[] = []
+
+async function getSessionToken(): Promise<string> {
+  if (sessionToken) return sessionToken
+  const res = await fetch('/api/session', { method: 'POST' })
+  const data = await res.json() as { token: string }
+  sessionToken = data.token
+  localStorage.setItem('guestSession', sessionToken)
+  return sessionToken
+}
+
+async function sessionHeaders(headers: Record<string, string> = {}): Promise<Record<string, string>> {
+  return { 'X-Guest-Session': await getSessionToken(), ...headers }
+}
+
+async function loadMySongs() {
+  // No token yet means this phone hasn't requested anything
+  if (!sessionToken) return
+  try {
+    const res = await fetch('/api/queue/mine', { headers: await sessionHeaders() })
+    if (!res.ok) return
+    mySongs = await res.json()
+    renderMySongs()
+  } catch (e) {
+    console.error('Failed to load my songs:', e)
+  }
+}
+
+function renderMySongs() {
+  byId('mySongsSection').style.display = mySongs.length > 0 ? 'block' : 'none'
+
+  byId('mySongsList').innerHTML = mySongs.map(item =>
+    '<div class="queue-item ' + (item.status === 'playing' ? 'playing' : '') + '">' +
+      '<div class="queue-info">' +
+        '<div class="song-title">' + escapeHtml(item.title) + '</div>' +
+        '<div class="queue-singer">' + escapeHtml(item.singer_name) +
+          (item.status === 'playing' ? ' · Now singing' : '') +
+          (item.status === 'pending_approval' ? ' · Waiting for host approval' : '') + '</div>' +
+      '</div>' +
+      (item.status === 'pending' || item.status === 'pending_approval' ?
+        '<button class="mine-btn" onclick="renameMySong(' + item.id + ')" title="Change singer name">✎</button>' +
+        '<button class="mine-btn cancel" onclick="cancelMySong(' + item.id + ')" title="Cancel request">×</button>'
+        : '') +
+    '</div>'
+  ).join('')
+}
+
+async function cancelMySong(queueId: number) {
+  const item = mySongs.find(s => s.id === queueId)
+  if (!item || !confirm('Cancel "' + item.title + '"?')) return
+  try {
+    const res = await fetch('/api/queue/mine/' + queueId, { method: 'DELETE', headers: await sessionHeaders() })
+    if (!res.ok) throw new Error('Request failed')
+    showToast('Request cancelled')
+  } catch (e) {
+    showToast('Could not cancel - it may have started already')
+  }
+}
+
+async function renameMySong(queueId: number) {
+  const item = mySongs.find(s => s.id === queueId)
+  if (!item) return
+  const singerName = (prompt('Who is singing?', item.singer_name) || '').trim()
+  if (!singerName || singerName === item.singer_name) return
+  try {
+    const res = await fetch('/api/queue/mine/' + queueId + '/singer', {
+      method: 'PUT',
+      headers: await sessionHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ singerName })
+    })
+    if (!res.ok) throw new Error('Request failed')
+    showToast('Singer updated')
+  } catch (e) {
+    showToast('Could not change the name - it may have started already')
+  }
+}
+
+// Language filter
+function setLanguage(lang: string) {
+  currentLanguage = lang
+  // Update button states
+  document.querySelectorAll('.lang-btn').forEach(btn => btn.classList.remove('active'))
+  if (lang === 'en') byId('langEn').classList.add('active')
+  else if (lang === 'es') byId('langEs').classList.add('active')
+  else byId('langAll').classList.add('active')
+
+  refreshSongs()
+}
+
+function toggleFilter(type: 'lyrics' | 'video') {
+  if (type === 'lyrics') {
+    filterLyrics = !filterLyrics
+    byId('filterLyrics').classList.toggle('active', filterLyrics)
+  } else {
+    filterVideo = !filterVideo
+    byId('filterVideo').classList.toggle('active', filterVideo)
+  }
+
+  refreshSongs()
+}
+
+// Language and content filters as query parameters
+function getFilterParams(): URLSearchParams {
+  const params = new URLSearchParams()
+  if (currentLanguage) params.set('lang', currentLanguage)
+  if (filterLyrics) params.set('hasLyrics', 'true')
+  if (filterVideo) params.set('hasVideo', 'true')
+  return params
+}
+
+// Reload the home lists, and the search results if searching, after a filter change
+function refreshSongs() {
+  loadHomeContent()
+
+  const query = searchInput.value.trim()
+  if (query.length >= 2) {
+    searchSongs(query)
+  }
+}
+
+// Search functionality
+const searchInput = byId<HTMLInputElement>('searchInput')
+let searchTimeout: number | undefined
+searchInput.addEventListener('input', () => {
+  clearTimeout(searchTimeout)
+  const query = searchInput.value.trim()
+  if (query.length < 2) {
+    showHome()
+    return
+  }
+  searchTimeout = window.setTimeout(() => searchSongs(query), 300)
+})
+
+function showHome() {
+  byId('resultsSection').style.display = 'none'
+  byId('homeSection').style.display = 'block'
+}
+
+async function searchSongs(query: string) {
+  try {
+    const params = getFilterParams()
+    params.set('q', query)
+    const res = await fetch('/api/songs?' + params)
+    const songs = await res.json() as Song[]
+    renderResults(songs)
+  } catch (e) {
+    console.error('Search failed:', e)
+  }
+}
+
+function renderSongItem(song: Song): string {
+  shownSongs.set(song.id, song)
+  // Videos have no preview (the server would have to send the whole file)
+  const previewButton = song.file_type === 'video'
+    ? '<span class="preview-spacer"></span>'
+    : '<button class="preview-btn" id="preview-' + song.id + '" onclick="togglePreview(' + song.id + ', event)" title="Preview">▶</button>'
+  return '<div class="song-item">' +
+    previewButton +
+    '<div class="song-item-info">' +
+      '<div class="song-title">' + escapeHtml(song.title) + '</div>' +
+      '<div class="song-artist">' + escapeHtml(song.artist || 'Unknown Artist') + '</div>' +
+    '</div>' +
+    (singer ? renderFavoriteButton(song.id) : '') +
+    '<button class="queue-btn" onclick="selectSong(' + song.id + ')" title="Add to Queue">+</button>' +
+  '</div>'
+}
+
+function renderSongCard(song: Song): string {
+  shownSongs.set(song.id, song)
+  return '<div class="song-card" onclick="selectSong(' + song.id + ')">' +
+    '<div class="song-title">' + escapeHtml(song.title) + '</div>' +
+    '<div class="song-artist">' + escapeHtml(song.artist || 'Unknown') + '</div>' +
+  '</div>'
+}
+
+function renderResults(songs: Song[]) {
+  const list = byId('resultsList')
+  byId('homeSection').style.display = 'none'
+  byId('resultsSection').style.display = 'block'
+
+  if (songs.length === 0) {
+    list.innerHTML = '<div class="empty-state">No songs found</div>'
+    return
+  }
+
+  list.innerHTML = songs.slice(0, 50).map(renderSongItem).join('')
+}
+
+function renderQueue(queue: PublicQueueItem[]) {
+  const list = byId('queueList')
+  const activeItems = queue.filter(q => q.status === 'playing' || q.status === 'pending')
+
+  if (activeItems.length === 0) {
+    list.innerHTML = '<div class="empty-state">Queue is empty - add some songs!</div>'
+    return
+  }
+
+  list.innerHTML = activeItems.map((item, i) =>
+    '<div class="queue-item ' + (item.status === 'playing' ? 'playing' : '') + '">' +
+      '<div class="queue-number">' + (item.status === 'playing' ? '▶' : (i + 1)) + '</div>' +
+      '<div class="queue-info">' +
+        '<div class="song-title">' + escapeHtml(item.title) + '</div>' +
+        '<div class="queue-singer">' + escapeHtml(item.singer_name) + '</div>' +
+      '</div>' +
+    '</div>'
+  ).join('')
+}
+
+function renderSongCards(listId: string, songs: Song[], emptyText: string) {
+  const list = byId(listId)
+  if (songs.length === 0) {
+    list.innerHTML = '<div class="empty-state" style="width:100%">' + emptyText + '</div>'
+    return
+  }
+  list.innerHTML = songs.map(renderSongCard).join('')
+}
+
+function selectSong(id: number) {
+  const song = shownSongs.get(id)
+  if (!song) return
+
+  selectedSong = { id, title: song.title }
+  selectedTranspose = 0
+  byId('keyValue').textContent = '0'
+  byId<HTMLSelectElement>('melodyMode').value = 'default'
+  byId('modalSong').textContent = song.title
+  // Load cached name from localStorage
+  const cachedName = localStorage.getItem('singerName') || ''
+  const singerInput = byId<HTMLInputElement>('singerInput')
+  singerInput.value = cachedName
+  byId('modal').classList.add('active')
+  if (!cachedName) {
+    singerInput.focus()
+  }
+}
+
+function closeModal() {
+  byId('modal').classList.remove('active')
+  selectedSong = null
+}
+
+// Move the song up or down in semitones
+function changeKey(delta: number) {
+  selectedTranspose = Math.max(-MAX_TRANSPOSE, Math.min(MAX_TRANSPOSE, selectedTranspose + delta))
+  byId('keyValue').textContent = selectedTranspose > 0 ? '+' + selectedTranspose : String(selectedTranspose)
+}
+
+async function confirmAdd() {
+  const singerName = byId<HTMLInputElement>('singerInput').value.trim()
+  if (!singerName || !selectedSong) return
+
+  // Cache the name for next time
+  localStorage.setItem('singerName', singerName)
+
+  try {
+    const res = await fetch('/api/queue', {
+      method: 'POST',
+      headers: await sessionHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({
+        songId: selectedSong.id,
+        singerName,
+        transpose: selectedTranspose,
+        melodyMode: byId<HTMLSelectElement>('melodyMode').value
+      })
+    })
+    const result = await res.json() as { error?: string; pendingApproval?: boolean }
+    if (!res.ok) {
+      // Host limits (too many songs, too soon, already queued) - keep the modal open
+      showToast(result.error || 'Could not add the song')
+      return
+    }
+    closeModal()
+    searchInput.value = ''
+    showHome()
+    if (result.pendingApproval) {
+      showToast('Sent to the host for approval')
+      loadMySongs()
+    } else {
+      showToast('Added to queue!')
+    }
+  } catch (e) {
+    console.error('Failed to add:', e)
+  }
+}
+
+function showTab(tab: 'browse' | 'mine') {
+  byId('browseTab').style.display = tab === 'browse' ? 'block' : 'none'
+  byId('mineTab').style.display = tab === 'mine' ? 'block' : 'none'
+  byId('tabBrowse').classList.toggle('active', tab === 'browse')
+  byId('tabMine').classList.toggle('active', tab === 'mine')
+
+  if (tab === 'mine') {
+    if (singer) {
+      loadSingerLists()
+    } else {
+      byId<HTMLInputElement>('profileName').value = localStorage.getItem('singerName') || ''
+    }
+  }
+}
+
+// Singer profile: signing in with a name (and PIN, if the singer set one) keeps favorites
+// and the songs sung under that name, so regulars can request them again with one tap
+let singerToken = localStorage.getItem('singerSession')
+let singer: { id: number; name: string; hasPin: boolean } | null = null
+let favoriteIds: Set<number> = new Set()
+
+async function singerFetch(url: string, options: RequestInit = {}): Promise<Response> {
+  const res = await fetch(url, {
+    ...options,
+    headers: { ...options.headers, 'X-Singer-Session': singerToken || '' }
+  })
+  // Signed out elsewhere, or the app restarted
+  if (res.status === 401) setSinger(null, null)
+  return res
+}
+
+function setSinger(token: string | null, profile: typeof singer) {
+  singerToken = token
+  singer = profile
+  if (token) {
+    localStorage.setItem('singerSession', token)
+  } else {
+    localStorage.removeItem('singerSession')
+    favoriteIds = new Set()
+  }
+  byId('signInSection').style.display = singer ? 'none' : 'block'
+  byId('profileSection').style.display = singer ? 'block' : 'none'
+  byId('profileLabel').textContent = singer ? 'Signed in as ' + singer.name + (singer.hasPin ? ' 🔒' : '') : ''
+  byId('addPinSection').style.display = singer && !singer.hasPin ? 'block' : 'none'
+}
+
+async function loadSinger() {
+  if (!singerToken) return
+  try {
+    const res = await singerFetch('/api/singers/me')
+    if (!res.ok) return
+    setSinger(singerToken, await res.json())
+    loadSingerLists()
+  } catch (e) {
+    console.error('Failed to load singer profile:', e)
+  }
+}
+
+async function signIn() {
+  const name = byId<HTMLInputElement>('profileName').value.trim()
+  const pinInput = byId<HTMLInputElement>('profilePin')
+  if (!name) return
+
+  try {
+    const res = await fetch('/api/singers/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, pin: pinInput.value })
+    })
+    const data = await res.json() as { token?: string; singer?: NonNullable<typeof singer>; error?: string; pinRequired?: boolean }
+    if (!res.ok || !data.token || !data.singer) {
+      showToast(data.error || 'Could not sign in')
+      if (data.pinRequired) pinInput.focus()
+      return
+    }
+    pinInput.value = ''
+    // Requests from the Add to Queue dialog default to the profile's name
+    localStorage.setItem('singerName', data.singer.name)
+    setSinger(data.token, data.singer)
+    loadSingerLists()
+  } catch (e) {
+    showToast('Could not reach the karaoke app')
+  }
+}
+
+// Only a signed-in singer can add a PIN, so a name can't be claimed by whoever signs in first with one
+async function addPin() {
+  const pinInput = byId<HTMLInputElement>('newPin')
+  if (!singer || !pinInput.value) return
+
+  try {
+    const res = await singerFetch('/api/singers/me/pin', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ pin: pinInput.value })
+    })
+    const data = await res.json() as NonNullable<typeof singer> & { error?: string }
+    if (!res.ok) {
+      showToast(data.error || 'Could not add PIN')
+      return
+    }
+    pinInput.value = ''
+    setSinger(singerToken, data)
+    showToast('PIN added')
+  } catch (e) {
+    showToast('Could not reach the karaoke app')
+  }
+}
+
+async function signOut() {
+  try {
+    await singerFetch('/api/singers/logout', { method: 'POST' })
+  } catch (e) {
+    // Signing out locally is enough
+  }
+  setSinger(null, null)
+}
+
+async function loadSingerLists() {
+  try {
+    const [favoritesRes, historyRes] = await Promise.all([
+      singerFetch('/api/singers/me/favorites'),
+      singerFetch('/api/singers/me/history')
+    ])
+    if (!favoritesRes.ok || !historyRes.ok) return
+    const favorites = await favoritesRes.json() as Song[]
+    const sung = await historyRes.json() as SungSong[]
+    favoriteIds = new Set(favorites.map(song => song.id))
+
+    byId('favoritesList').innerHTML = favorites.length > 0
+      ? favorites.map(song => renderProfileSong(song, song.artist || 'Unknown Artist')).join('')
+      : '<div class="empty-state">Tap ☆ next to a song to save it here</div>'
+    byId('sungList').innerHTML = sung.length > 0
+      ? sung.map(song => renderProfileSong(song, 'Sung ' + (song.times_sung === 1 ? 'once' : song.times_sung + ' times'))).join('')
+      : '<div class="empty-state">Songs you sing as ' + escapeHtml(singer?.name) + ' will show up here</div>'
+  } catch (e) {
+    console.error('Failed to load singer lists:', e)
+  }
+}
+
+function renderFavoriteButton(songId: number): string {
+  return '<button class="fav-btn" data-favorite="' + songId + '" onclick="toggleFavorite(' + songId + ', event)" title="Favorite">' +
+    (favoriteIds.has(songId) ? '★' : '☆') + '</button>'
+}
+
+function renderProfileSong(song: Song, detail: string): string {
+  shownSongs.set(song.id, song)
+  return '<div class="song-item">' +
+    '<div class="song-item-info">' +
+      '<div class="song-title">' + escapeHtml(song.title) + '</div>' +
+      '<div class="song-artist">' + escapeHtml(detail) + '</div>' +
+    '</div>' +
+    renderFavoriteButton(song.id) +
+    '<button class="queue-btn" onclick="quickAdd(' + song.id + ')" title="Add to Queue as ' + escapeHtml(singer?.name) + '">+</button>' +
+  '</div>'
+}
+
+async function toggleFavorite(songId: number, event: Event) {
+  event.stopPropagation()
+  const isFavorite = favoriteIds.has(songId)
+  try {
+    const res = await singerFetch('/api/singers/me/favorites/' + songId, { method: isFavorite ? 'DELETE' : 'PUT' })
+    if (!res.ok) throw new Error('Request failed')
+    if (isFavorite) {
+      favoriteIds.delete(songId)
+    } else {
+      favoriteIds.add(songId)
+    }
+    document.querySelectorAll('[data-favorite="' + songId + '"]').forEach(btn => {
+      btn.textContent = isFavorite ? '☆' : '★'
+    })
+    if (byId('mineTab').style.display !== 'none') loadSingerLists()
+  } catch (e) {
+    showToast('Could not update favorites')
+  }
+}
+
+// One tap: request the song as the signed-in singer, in its original key
+async function quickAdd(songId: number) {
+  const song = shownSongs.get(songId)
+  if (!singer || !song) return
+
+  try {
+    const res = await fetch('/api/queue', {
+      method: 'POST',
+      headers: await sessionHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ songId, singerName: singer.name })
+    })
+    const result = await res.json() as { error?: string; pendingApproval?: boolean }
+    if (!res.ok) {
+      showToast(result.error || 'Could not add the song')
+      return
+    }
+    showToast(result.pendingApproval ? 'Sent to the host for approval' : 'Added "' + song.title + '" to the queue!')
+    loadMySongs()
+  } catch (e) {
+    console.error('Failed to add:', e)
+  }
+}
+
+// Load home content (respects language and content filters)
+function loadHomeContent() {
+  const params = getFilterParams().toString()
+  const query = params ? '?' + params : ''
+
+  fetch('/api/popular' + query).then(r => r.json())
+    .then(songs => renderSongCards('popularList', songs, 'No play history yet')).catch(() => {})
+  fetch('/api/discover' + query).then(r => r.json())
+    .then(songs => renderSongCards('discoverList', songs, 'No songs available')).catch(() => {})
+}
+
+exposeHandlers({
+  setLanguage,
+  toggleFilter,
+  selectSong,
+  closeModal,
+  changeKey,
+  confirmAdd,
+  cancelMySong,
+  renameMySong,
+  togglePreview,
+  showTab,
+  signIn,
+  addPin,
+  signOut,
+  toggleFavorite,
+  quickAdd
+})
+
+// Load initial data (the queue arrives in the WebSocket snapshot)
+socket.connect()
+loadMySongs()
+loadSinger()
+loadHomeContent()
+
+// Audio needs a user gesture on phones, so get it ready on the first tap
+document.addEventListener('click', warmUpAudio, { once: true })
@@ -0,0 +1,192 @@
+import Soundfont, { type Player } from 'soundfont-player'
+import { showToast } from '../shared/dom'
+
+// Audio previews rendered by the karaoke app. When it has no local soundfont to render with,
+// the preview notes are played here with a soundfont-player piano whose samples ship with the
+// app (/instruments), so previews still work offline.
+
+// Longest preview played (matches PREVIEW_DURATION_MS in electron/web/preview.ts)
+const PREVIEW_DURATION_MS = 15000
+
+interface PreviewNote {
+  time: number // ms
+  duration: number // ms
+  midi: number
+  velocity: number // 0-127
+}
+
+let audioContext: AudioContext | null = null
+let pianoPlayer: Player | null = null
+let currentPreviewId: number | null = null
+let previewTimeouts: number[] = []
+let activeSounds: { stop: (when?: number) => void }[] = []
+let loadingPiano = false
+
+declare global {
+  interface Window {
+    webkitAudioContext?: typeof AudioContext
+  }
+}
+
+async function getAudioContext(): Promise<AudioContext> {
+  if (!audioContext) {
+    audioContext = new (window.AudioContext || window.webkitAudioContext!)()
+  }
+  // iOS Safari requires resume() from user gesture
+  if (audioContext.state === 'suspended') {
+    try {
+      await audioContext.resume()
+      console.log('AudioContext resumed, state:', audioContext.state)
+    } catch (e) {
+      console.error('Failed to resume AudioContext:', e)
+    }
+  }
+  return audioContext
+}
+
+async function loadPiano(): Promise<Player | null> {
+  if (pianoPlayer || loadingPiano) return pianoPlayer
+  loadingPiano = true
+
+  try {
+    const ctx = await getAudioContext()
+    console.log('Loading piano soundfont, AudioContext state:', ctx.state)
+    pianoPlayer = await Soundfont.instrument(ctx, 'acoustic_grand_piano', {
+      gain: 2.0,
+      nameToUrl: (name, _soundfont, format) => `/instruments/${name}-${format || 'mp3'}.js`
+    })
+    console.log('Piano soundfont loaded')
+    return pianoPlayer
+  } catch (e) {
+    console.error('Failed to load piano:', e)
+    loadingPiano = false
+    return null
+  }
+}
+
+function stopPreview() {
+  previewTimeouts.forEach(t => clearTimeout(t))
+  previewTimeouts = []
+
+  // Stop all active notes and audio
+  activeSounds.forEach(sound => {
+    try { sound.stop() } catch (e) { /* already stopped */ }
+  })
+  activeSounds = []
+
+  if (currentPreviewId) {
+    const btn = document.getElementById('preview-' + currentPreviewId)
+    if (btn) {
+      btn.classList.remove('playing')
+      btn.textContent = '▶'
+    }
+    currentPreviewId = null
+  }
+}
+
+export async function togglePreview(songId: number, event: Event) {
+  event.stopPropagation()
+
+  // If already playing this song, stop it
+  if (currentPreviewId === songId) {
+    stopPreview()
+    return
+  }
+
+  // Stop any current preview
+  stopPreview()
+
+  const btn = document.getElementById('preview-' + songId)
+  btn?.classList.add('playing')
+  if (btn) btn.textContent = '⏹'
+  currentPreviewId = songId
+
+  try {
+    const res = await fetch('/api/preview/' + songId)
+    if (res.status === 503) {
+      // No soundfont to render with; play the notes on the phone instead
+      await playNotePreview(songId)
+      return
+    }
+    if (!res.ok) throw new Error('Failed to load preview')
+
+    const ctx = await getAudioContext()
+    const audio = await ctx.decodeAudioData(await res.arrayBuffer())
+    // Another song may have been picked while this one loaded
+    if (currentPreviewId !== songId) return
+
+    const source = ctx.createBufferSource()
+    source.buffer = audio
+    source.connect(ctx.destination)
+    source.start()
+    activeSounds.push(source)
+
+    // Auto-stop at the end (whole audio files for some CDG songs run longer than a preview)
+    scheduleStop(songId, Math.min(audio.duration * 1000, PREVIEW_DURATION_MS))
+  } catch (e) {
+    console.error('Preview failed:', e)
+    stopPreview()
+    showToast('Preview failed: ' + ((e as Error).message || 'Unknown error'))
+  }
+}
+
+async function playNotePreview(songId: number) {
+  // Load piano if not already loaded
+  const piano = await loadPiano()
+  if (!piano) {
+    throw new Error('Piano not loaded')
+  }
+
+  const res = await fetch('/api/preview/' + songId + '/notes')
+  if (!res.ok) throw new Error('Failed to load preview')
+
+  const data = await res.json() as { notes: PreviewNote[]; duration: number }
+  const ctx = await getAudioContext()
+  if (currentPreviewId !== songId) return
+  console.log('Playing preview, AudioContext state:', ctx.state)
+
+  const audioStartTime = ctx.currentTime
+
+  // Schedule notes using soundfont player
+  data.notes.forEach(note => {
+    const noteStartTime = audioStartTime + (note.time / 1000)
+    const noteDuration = Math.min(note.duration / 1000, 2)
+    const gain = (note.velocity / 127) * 2.0
+
+    activeSounds.push(piano.play(note.midi, noteStartTime, { gain, duration: noteDuration }))
+  })
+
+  scheduleStop(songId, data.duration)
+}
+
+// Auto-stop after preview duration
+function scheduleStop(songId: number, durationMs: number) {
+  previewTimeouts.push(window.setTimeout(() => {
+    if (currentPreviewId === songId) {
+      stopPreview()
+    }
+  }, durationMs + 500))
+}
+
+// iOS silent mode bypass: playing an <audio> element switches to "Playback" mode
+// which ignores the silent switch (like YouTube does)
+function unlockiOSAudio() {
+  // Create a short silent audio using a data URI (tiny MP3)
+  const silentAudio = new Audio('data:audio/mp3;base64,SUQzBAAAAAAAI1RTU0UAAAAPAAADTGF2ZjU4Ljc2LjEwMAAAAAAAAAAAAAAA//tQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAWGluZwAAAA8AAAACAAABhgC7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7//////////////////////////////////////////////////////////////////8AAAAATGF2YzU4LjEzAAAAAAAAAAAAAAAAJAAAAAAAAAAAAYYoRwmHAAAAAAD/+9DEAAAIAANIAAAAgAAA0gAAABBHq4SCCCEIEBASBEQFBQUFH/y4IBgbB8H/8QBg+D5//y4f/h/gh//+sHQfD/UC/1g//9YP+D4f8=')
+  silentAudio.setAttribute('playsinline', 'true')
+  silentAudio.play().then(() => {
+    console.log('iOS audio unlocked (silent mode bypass)')
+  }).catch(e => {
+    console.log('iOS audio unlock skipped:', e.message)
+  })
+}
+
+/** Get audio going on first interaction (iOS needs this from user gesture) */
+export async function warmUpAudio() {
+  try {
+    unlockiOSAudio() // Bypass iOS silent mode
+    await getAudioContext() // Ensure context is resumed
+  } catch (e) {
+    console.error('Failed to initialize audio:', e)
+  }
+}
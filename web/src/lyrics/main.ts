@@ -0,0 +1,120 @@
+import type { LyricsSync, PublicQueueItem } from '../../../electron/web/protocol'
+import type { LyricLine } from '../../../electron/midi/parser'
+import { KaraokeSocket } from '../shared/socket'
+import { byId, escapeHtml } from '../shared/dom'
+
+// Clock samples kept for estimating the offset to the server clock
+const MAX_CLOCK_SAMPLES = 8
+const CLOCK_RESYNC_MS = 30000
+
+let clockSamples: { roundTrip: number; offset: number }[] = []
+let clockOffset = 0 // server clock - phone clock, in ms
+let sync: LyricsSync | null = null
+let renderedLine: LyricLine | null = null
+
+const socket = new KaraokeSocket({
+  topics: ['queue', 'lyrics'],
+  onStatusChange: (connected) => {
+    byId('connectionText').textContent = connected ? 'Live' : 'Reconnecting...'
+    if (connected) measureClock()
+  },
+  onMessage: (msg) => {
+    if (msg.type === 'snapshot') {
+      renderNowSinging(msg.queue)
+      if ('lyrics' in msg) sync = msg.lyrics ?? null
+    } else if (msg.type === 'queue') {
+      renderNowSinging(msg.data)
+    } else if (msg.type === 'lyrics') {
+      sync = msg.data
+    }
+  }
+})
+
+// A few pings, spaced out; the one with the shortest round trip gives the best offset
+function measureClock() {
+  for (let i = 0; i < 4; i++) {
+    setTimeout(sendPing, i * 250)
+  }
+}
+
+async function sendPing() {
+  const sentAt = Date.now()
+  try {
+    const result = await socket.sendCommand('ping', {}) as { serverTime: number }
+    addClockSample(sentAt, Date.now(), result.serverTime)
+  } catch (e) {
+    // Not connected; the next connection measures again
+  }
+}
+
+function addClockSample(sentAt: number, receivedAt: number, serverTime: number) {
+  const roundTrip = receivedAt - sentAt
+  // Assume the reply took half the round trip to arrive
+  clockSamples.push({ roundTrip, offset: serverTime + roundTrip / 2 - receivedAt })
+  if (clockSamples.length > MAX_CLOCK_SAMPLES) clockSamples.shift()
+  clockOffset = clockSamples.reduce((best, s) => s.roundTrip < best.roundTrip ? s : best).offset
+}
+
+// Song position right now, extrapolated from the last sync message
+function currentSongTime(sync: LyricsSync): number {
+  if (!sync.playing) return sync.songTimeMs
+  return sync.songTimeMs + (Date.now() + clockOffset - sync.serverTime) * sync.rate
+}
+
+function renderNowSinging(queue: PublicQueueItem[]) {
+  const playing = queue.find(q => q.status === 'playing')
+  byId('songTitle').textContent = playing?.title ?? ''
+  byId('singerName').textContent = playing ? 'Singing: ' + playing.singer_name : ''
+}
+
+function renderLine(line: LyricLine | null) {
+  const el = byId('currentLine')
+  renderedLine = line
+  if (!line) {
+    el.innerHTML = ''
+  } else if (line.isMusicalBreak || !line.syllables || line.syllables.length === 0) {
+    el.textContent = line.isMusicalBreak ? '♪ ♪ ♪' : line.text
+  } else {
+    el.innerHTML = line.syllables.map(s => '<span class="syllable">' + escapeHtml(s.text) + '</span>').join('')
+  }
+}
+
+function render() {
+  const messageEl = byId('message')
+  const nextEl = byId('nextLine')
+
+  if (!sync) {
+    if (renderedLine) renderLine(null)
+    nextEl.textContent = ''
+    messageEl.textContent = 'Waiting for the next song...'
+    requestAnimationFrame(render)
+    return
+  }
+  messageEl.textContent = sync.playing ? '' : 'Paused'
+
+  const time = currentSongTime(sync) / 1000
+  let line = sync.line
+  let next = sync.nextLine
+  // The next line may start before the server's message about it arrives
+  if (next && time >= next.startTime) {
+    line = next
+    next = null
+  }
+  if (line && time >= line.endTime) line = null
+
+  if (line !== renderedLine) renderLine(line)
+  nextEl.textContent = next && !next.isMusicalBreak ? next.text : ''
+
+  if (line && line.syllables) {
+    const spans = document.querySelectorAll('#currentLine .syllable')
+    line.syllables.forEach((s, i) => {
+      spans[i]?.classList.toggle('sung', time >= s.time)
+    })
+  }
+
+  requestAnimationFrame(render)
+}
+
+socket.connect()
+setInterval(sendPing, CLOCK_RESYNC_MS)
+requestAnimationFrame(render)
@@ -0,0 +1,28 @@
+export function byId<T extends HTMLElement = HTMLElement>(id: string): T {
+  return document.getElementById(id) as T
+}
+
+export function escapeHtml(text: string | null | undefined): string {
+  const div = document.createElement('div')
+  div.textContent = text || ''
+  return div.innerHTML
+}
+
+let toastTimer: number | undefined
+
+export function showToast(message: string, isError = false): void {
+  const toast = byId('toast')
+  toast.textContent = message
+  toast.className = 'toast' + (isError ? ' error' : '')
+  toast.classList.add('show')
+  clearTimeout(toastTimer)
+  toastTimer = window.setTimeout(() => toast.classList.remove('show'), 2000)
+}
+
+/**
+ * Make handlers callable from inline onclick attributes; page scripts are modules,
+ * so their functions aren't globals otherwise
+ */
+export function exposeHandlers(handlers: Record<string, (...args: never[]) => unknown>): void {
+  Object.assign(window, handlers)
+}
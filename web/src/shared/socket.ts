@@ -0,0 +1,120 @@
+import {
+  PROTOCOL_VERSION,
+  type CommandName,
+  type CommandParams,
+  type ServerMessage,
+  type Topic
+} from '../../../electron/web/protocol'
+
+// How long a command waits for its ack before giving up
+const COMMAND_TIMEOUT_MS = 5000
+const RECONNECT_DELAY_MS = 2000
+
+interface PendingCommand {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  timer: number
+}
+
+export interface KaraokeSocketOptions {
+  onMessage: (msg: ServerMessage) => void
+  onStatusChange?: (connected: boolean) => void
+  // Topics to follow instead of the server's defaults
+  topics?: Topic[]
+  // Admin session token, sent when connecting
+  getToken?: () => string | null
+  // Return false to stop reconnecting (e.g. after logging out)
+  shouldReconnect?: () => boolean
+}
+
+/**
+ * WebSocket connection to the karaoke app (protocol in electron/web/protocol.ts).
+ * Reconnects on its own, and on a gap in the sequence numbers so the server sends a fresh snapshot.
+ */
+export class KaraokeSocket {
+  private ws: WebSocket | null = null
+  private lastSeq = 0
+  private nextCommandId = 1
+  private pending: Map<number, PendingCommand> = new Map()
+  private options: KaraokeSocketOptions
+
+  constructor(options: KaraokeSocketOptions) {
+    this.options = options
+  }
+
+  connect(): void {
+    const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:'
+    const token = this.options.getToken?.()
+    const query = token ? '/?token=' + encodeURIComponent(token) : ''
+    const ws = new WebSocket(protocol + '//' + location.host + query)
+    this.ws = ws
+
+    ws.onopen = () => {
+      this.lastSeq = 0
+      this.options.onStatusChange?.(true)
+      if (this.options.topics) {
+        ws.send(JSON.stringify({ v: PROTOCOL_VERSION, type: 'subscribe', topics: this.options.topics }))
+      }
+    }
+
+    ws.onclose = () => {
+      this.options.onStatusChange?.(false)
+      for (const [id, command] of this.pending) {
+        clearTimeout(command.timer)
+        command.reject(new Error('Disconnected'))
+        this.pending.delete(id)
+      }
+      if (this.ws === ws && (this.options.shouldReconnect?.() ?? true)) {
+        setTimeout(() => this.connect(), RECONNECT_DELAY_MS)
+      }
+    }
+
+    ws.onmessage = (event) => {
+      const msg = JSON.parse(event.data) as ServerMessage
+      // A gap in the sequence means messages were lost; reconnecting brings a fresh snapshot
+      if (this.lastSeq && msg.seq !== this.lastSeq + 1) {
+        ws.close()
+        return
+      }
+      this.lastSeq = msg.seq
+
+      if ((msg.type === 'ack' || msg.type === 'error') && msg.id !== null) {
+        const command = this.pending.get(msg.id)
+        if (command) {
+          clearTimeout(command.timer)
+          this.pending.delete(msg.id)
+          if (msg.type === 'ack') {
+            command.resolve(msg.result)
+          } else {
+            command.reject(new Error(msg.message))
+          }
+        }
+      }
+      this.options.onMessage(msg)
+    }
+  }
+
+  close(): void {
+    const ws = this.ws
+    this.ws = null
+    ws?.close()
+  }
+
+  /** Send a command; resolves with the ack's result, rejects with the server's error message */
+  sendCommand<C extends CommandName>(command: C, params: CommandParams[C]): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const ws = this.ws
+      if (!ws || ws.readyState !== WebSocket.OPEN) {
+        reject(new Error('Not connected'))
+        return
+      }
+      const id = this.nextCommandId++
+      const timer = window.setTimeout(() => {
+        this.pending.delete(id)
+        reject(new Error('No response from the karaoke app'))
+      }, COMMAND_TIMEOUT_MS)
+      this.pending.set(id, { resolve, reject, timer })
+      ws.send(JSON.stringify({ v: PROTOCOL_VERSION, type: 'command', id, command, params }))
+    })
+  }
+}
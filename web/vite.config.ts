@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite'
+import path from 'path'
+
+// Pages served to phones by the app's web server (electron/web/server.ts)
+export default defineConfig({
+  root: __dirname,
+  base: '/',
+  build: {
+    outDir: path.resolve(__dirname, '../dist-web'),
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        guest: path.resolve(__dirname, 'index.html'),
+        admin: path.resolve(__dirname, 'admin.html'),
+        lyrics: path.resolve(__dirname, 'lyrics.html')
+      }
+    }
+  }
+})